@@ -0,0 +1,83 @@
+import { describe, it, expect, afterEach } from 'vitest';
+import { EventEmitter } from 'events';
+import { BuiltinEngine } from './builtin-engine';
+import { AnalysisQueue, goCommand } from './analysis-queue';
+import { START_FEN } from '../renderer/src/lib/xiangqi';
+import { EngineInfo } from '../shared/engine';
+
+const MATE_IN_ONE = '3k5/9/3P5/9/9/9/9/9/9/R3K4 w - - 0 1';
+
+describe('goCommand', () => {
+  it('should build go commands from limits', () => {
+      expect(goCommand({ depth: 12 })).toBe('go depth 12');
+      expect(goCommand({ wtime: 60000, btime: 55000, winc: 1000, binc: 1000 })).toBe('go wtime 60000 btime 55000 winc 1000 binc 1000');
+      expect(goCommand({ infinite: true })).toBe('go infinite');
+  });
+});
+
+describe('AnalysisQueue', () => {
+  let engine: BuiltinEngine;
+
+  afterEach(() => {
+    engine.quit();
+  });
+
+  it('should resolve a request with its bestmove and pass on its infos', async () => {
+      engine = new BuiltinEngine();
+      engine.start();
+      const infos: EngineInfo[] = [];
+      const result = await engine.analyze({ fen: MATE_IN_ONE, moves: [], limits: { depth: 3 } }, info => infos.push(info));
+      expect(result).toEqual({ bestmove: 'a0a9', ponder: undefined, cancelled: false });
+      expect(infos.length).toBeGreaterThan(0);
+      expect(infos[infos.length - 1]).toMatchObject({ scoreType: 'mate', scoreValue: 1 });
+  });
+
+  it('should stop a running search for a newer request and keep their infos apart', async () => {
+      engine = new BuiltinEngine();
+      engine.start();
+      const oldInfos: EngineInfo[] = [];
+      const newInfos: EngineInfo[] = [];
+      const old = engine.analyze({ fen: START_FEN, moves: [], limits: { infinite: true } }, info => oldInfos.push(info));
+      await new Promise(resolve => setTimeout(resolve, 100));
+      const latest = engine.analyze({ fen: MATE_IN_ONE, moves: [], limits: { depth: 3 } }, info => newInfos.push(info));
+
+      const stopped = await old;
+      expect(stopped.cancelled).toBe(true);
+      expect(stopped.bestmove).toMatch(/^[a-i]\d[a-i]\d$/);
+      expect((await latest).bestmove).toBe('a0a9');
+      expect(oldInfos.every(info => !info.pv?.startsWith('a0a9'))).toBe(true);
+      expect(newInfos.every(info => info.pv?.startsWith('a0a9'))).toBe(true);
+  });
+
+  it('should drop superseded requests that never started and settle everything on cancel', async () => {
+      engine = new BuiltinEngine();
+      engine.start();
+      const first = engine.analyze({ fen: START_FEN, moves: ['h2e2'], limits: { infinite: true } });
+      const second = engine.analyze({ fen: START_FEN, moves: ['c3c4'], limits: { depth: 2 } });
+      const third = engine.analyze({ fen: START_FEN, moves: ['h0g2'], limits: { infinite: true } });
+      await expect(second).resolves.toEqual({ bestmove: null, cancelled: true });
+      expect((await first).cancelled).toBe(true);
+
+      engine.cancelAnalysis();
+      expect((await third).cancelled).toBe(true);
+  });
+});
+
+describe('AnalysisQueue with an engine that is down', () => {
+  it('should ask again for readyok when the engine comes up after a request', async () => {
+      // Commands sent while the engine is down are dropped
+      const sent: string[] = [];
+      const fake = Object.assign(new EventEmitter(), { up: false, send: (command: string) => { if (fake.up) sent.push(command); } });
+      const queue = new AnalysisQueue(fake);
+      const result = queue.analyze({ fen: MATE_IN_ONE, moves: [], limits: { depth: 3 } });
+      expect(sent).toEqual([]);
+
+      fake.up = true;
+      fake.emit('ready');
+      expect(sent).toEqual(['isready']);
+      fake.emit('readyok');
+      expect(sent[sent.length - 1]).toBe('go depth 3');
+      fake.emit('bestmove', 'a0a9');
+      await expect(result).resolves.toEqual({ bestmove: 'a0a9', ponder: undefined, cancelled: false });
+  });
+});
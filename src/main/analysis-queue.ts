@@ -0,0 +1,128 @@
+import { EventEmitter } from 'events';
+import { toUciPositionCommand } from '../renderer/src/lib/xiangqi';
+import { AnalysisLimits, AnalysisRequest, AnalysisResult, EngineInfo } from '../shared/engine';
+
+// Runs analysis requests on an engine one at a time. A new request supersedes
+// the previous ones: a running search is stopped and waited for, and the
+// engine is synchronised with `isready` before the next `position`/`go`, so
+// infos and the bestmove of an old search are never taken for a newer one.
+
+interface AnalysisEngine extends EventEmitter {
+  send(command: string): void;
+}
+
+interface AnalysisJob {
+  request: AnalysisRequest;
+  onInfo?: (info: EngineInfo) => void;
+  resolve: (result: AnalysisResult) => void;
+  cancelled: boolean;
+}
+
+const LIMIT_FIELDS = ['depth', 'movetime', 'wtime', 'btime', 'winc', 'binc'] as const;
+
+export function goCommand(limits: AnalysisLimits): string {
+  const parts = ['go'];
+  for (const field of LIMIT_FIELDS) {
+    if (limits[field] !== undefined) parts.push(field, String(limits[field]));
+  }
+  if (limits.infinite) parts.push('infinite');
+  return parts.join(' ');
+}
+
+export class AnalysisQueue {
+  private current: AnalysisJob | null = null;
+  private searching = false; // `go` sent for the current job, as opposed to waiting for `readyok`
+  private next: AnalysisJob | null = null;
+
+  constructor(private readonly engine: AnalysisEngine) {
+    engine.on('readyok', () => this.onReadyOk());
+    // An `isready` sent while the engine was down (e.g. restarting after a
+    // crash) went nowhere, so ask again once it is up
+    engine.on('ready', () => {
+      if (this.current && !this.searching) this.engine.send('isready');
+    });
+    engine.on('info', (info: EngineInfo) => {
+      if (this.current && this.searching) this.current.onInfo?.(info);
+    });
+    engine.on('bestmove', (move: string, ponder?: string) => this.onBestMove(move, ponder));
+    // A restarted engine has forgotten its jobs
+    engine.on('crashed', () => this.clear());
+    engine.on('failed', () => this.clear());
+    engine.on('quit', () => this.clear());
+  }
+
+  /**
+   * Queues a request, cancelling any earlier ones. Infos of its search are
+   * passed to onInfo; the promise settles with the bestmove.
+   */
+  public analyze(request: AnalysisRequest, onInfo?: (info: EngineInfo) => void): Promise<AnalysisResult> {
+    return new Promise(resolve => {
+      if (this.next) this.next.resolve({ bestmove: null, cancelled: true });
+      this.next = { request, onInfo, resolve, cancelled: false };
+      this.advance();
+    });
+  }
+
+  /**
+   * Cancels the queued and the running request. A stopped search still settles
+   * with its bestmove, flagged as cancelled.
+   */
+  public cancel(): void {
+    if (this.next) {
+      this.next.resolve({ bestmove: null, cancelled: true });
+      this.next = null;
+    }
+    this.stopCurrent();
+  }
+
+  private stopCurrent(): void {
+    if (!this.current || this.current.cancelled) return;
+    this.current.cancelled = true;
+    if (this.searching) this.engine.send('stop');
+  }
+
+  private advance(): void {
+    if (this.current) {
+      // Started again once the engine has answered the current job
+      this.stopCurrent();
+      return;
+    }
+    if (!this.next) return;
+    this.current = this.next;
+    this.next = null;
+    this.searching = false;
+    this.engine.send('isready');
+  }
+
+  private onReadyOk(): void {
+    const job = this.current;
+    if (!job || this.searching) return;
+    if (job.cancelled) {
+      this.current = null;
+      job.resolve({ bestmove: null, cancelled: true });
+      this.advance();
+      return;
+    }
+    this.searching = true;
+    this.engine.send(toUciPositionCommand(job.request.fen, job.request.moves));
+    this.engine.send(goCommand(job.request.limits));
+  }
+
+  private onBestMove(move: string, ponder?: string): void {
+    const job = this.current;
+    if (!job || !this.searching) return; // Not a search of ours
+    this.current = null;
+    this.searching = false;
+    job.resolve({ bestmove: move && move !== '(none)' ? move : null, ponder, cancelled: job.cancelled });
+    this.advance();
+  }
+
+  private clear(): void {
+    for (const job of [this.current, this.next]) {
+      job?.resolve({ bestmove: null, cancelled: true });
+    }
+    this.current = null;
+    this.next = null;
+    this.searching = false;
+  }
+}
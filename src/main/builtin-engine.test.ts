@@ -0,0 +1,103 @@
+import { describe, it, expect, afterEach } from 'vitest';
+import { BuiltinEngine } from './builtin-engine';
+import { Position } from '../renderer/src/lib/xiangqi';
+import { evaluate } from './search';
+
+const waitFor = (engine: BuiltinEngine, event: string) =>
+  new Promise<any[]>(resolve => engine.once(event, (...args) => resolve(args)));
+
+describe('BuiltinEngine', () => {
+  let engine: BuiltinEngine;
+
+  afterEach(() => {
+    engine.quit();
+  });
+
+  it('should answer the UCI handshake like UCIEngine', async () => {
+    engine = new BuiltinEngine();
+    const ready = waitFor(engine, 'ready');
+    engine.start();
+    await expect(ready).resolves.toEqual([]);
+
+    const readyok = waitFor(engine, 'readyok');
+    engine.send('isready');
+    await expect(readyok).resolves.toEqual([]);
+  });
+
+  it('should find a mate in one and report it as a mate score', async () => {
+    engine = new BuiltinEngine();
+    engine.start();
+    const infos: any[] = [];
+    engine.on('info', info => infos.push(info));
+
+    // Rook to the back rank; the Pawn covers d8 and the Rook covers e9
+    engine.send('position fen 3k5/9/3P5/9/9/9/9/9/9/R3K4 w - - 0 1');
+    const bestmove = waitFor(engine, 'bestmove');
+    engine.send('go depth 3');
+    expect((await bestmove)[0]).toBe('a0a9');
+    expect(infos[infos.length - 1]).toMatchObject({ scoreType: 'mate', scoreValue: 1, multipv: 1 });
+    expect(infos[infos.length - 1].pv.startsWith('a0a9')).toBe(true);
+  });
+
+  it('should take a hanging Rook and report MultiPV lines', async () => {
+    engine = new BuiltinEngine();
+    engine.start();
+    const infos: any[] = [];
+    engine.on('info', info => infos.push(info));
+
+    engine.send('setoption name MultiPV value 2');
+    engine.send('position fen 5k3/9/9/9/9/r8/9/9/9/R2K5 w - - 0 1');
+    const bestmove = waitFor(engine, 'bestmove');
+    engine.send('go depth 2');
+    const [move] = await bestmove;
+    expect(move).toBe('a0a4');
+    expect(new Set(infos.filter(i => i.depth === 2).map(i => i.multipv))).toEqual(new Set([1, 2]));
+  });
+
+  it('should stop an infinite search and answer bestmove', async () => {
+    engine = new BuiltinEngine();
+    engine.start();
+    const bestmove = waitFor(engine, 'bestmove');
+    engine.send('position startpos');
+    engine.send('go infinite');
+    setTimeout(() => engine.send('stop'), 200);
+    const [move] = await bestmove;
+    expect(move).toMatch(/^[a-i]\d[a-i]\d$/);
+  });
+
+  it('should search off the main thread and stop in the middle of an iteration', async () => {
+    engine = new BuiltinEngine();
+    engine.start();
+    let ticks = 0;
+    const timer = setInterval(() => ticks++, 10);
+    const bestmove = waitFor(engine, 'bestmove');
+    engine.send('position startpos');
+    engine.send('go infinite');
+    await new Promise(resolve => setTimeout(resolve, 1000));
+    const stopped = Date.now();
+    engine.send('stop');
+    const [move] = await bestmove;
+    clearInterval(timer);
+    expect(move).toMatch(/^[a-i]\d[a-i]\d$/);
+    expect(Date.now() - stopped).toBeLessThan(500);
+    expect(ticks).toBeGreaterThan(20);
+  });
+
+  it('should answer no move for a position it cannot set up', async () => {
+    engine = new BuiltinEngine();
+    engine.start();
+    const bestmove = waitFor(engine, 'bestmove');
+    engine.send('position fen rnbakabnr/9/1c5c1/p1p1p1p1p/9/P8/P1P1P1P1P/1C5C1/9/RNBAKABNR w - - 0 1');
+    engine.send('go depth 2');
+    expect((await bestmove)[0]).toBe('(none)');
+  });
+
+  it('should evaluate mirrored positions symmetrically', () => {
+    engine = new BuiltinEngine();
+    expect(evaluate(Position.fromFen('rnbakabnr/9/1c5c1/p1p1p1p1p/9/9/P1P1P1P1P/1C5C1/9/RNBAKABNR w'))).toBe(0);
+    const red = evaluate(Position.fromFen('4k4/9/9/9/2P6/9/9/9/9/4K4 w'));
+    const black = evaluate(Position.fromFen('4k4/9/9/9/9/6p2/9/9/9/4K4 b'));
+    expect(red).toBe(black);
+    expect(red).toBeGreaterThan(100);
+  });
+});
@@ -0,0 +1,260 @@
+import { EventEmitter } from 'events';
+import { Worker } from 'worker_threads';
+import { Position, START_FEN, fromUciMove, toUciMove, decodeMove } from '../renderer/src/lib/xiangqi';
+import { SearchLine, MATE_SCORE, MATE_BOUND } from './search';
+import { SearchJob, SearchMessage } from './search-worker';
+import createSearchWorker from './search-worker?nodeWorker';
+import { EngineInfo, EngineOption, AnalysisRequest, AnalysisResult } from '../shared/engine';
+import { AnalysisQueue } from './analysis-queue';
+
+// Fallback engine used when no Pikafish binary can run (e.g. on Linux). It
+// accepts the same UCI commands through send() and emits the same events as
+// UCIEngine ('ready', 'readyok', 'info', 'bestmove', 'line'), so the renderer
+// does not need to know which engine it is talking to. Searches run in a
+// worker thread (see search-worker.ts).
+
+const MAX_DEPTH = 32;
+// `go depth N` is meant for Pikafish; cap the time so deep requests still return
+const DEPTH_TIME_LIMIT = 10000;
+
+interface GoLimits {
+  depth: number;
+  movetime?: number;
+  infinite: boolean;
+}
+
+const moveToUci = (move: number) => {
+  const { from, to } = decodeMove(move);
+  return toUciMove(from, to);
+};
+
+export class BuiltinEngine extends EventEmitter {
+  public readonly name = 'Built-in';
+  public readonly author = '';
+  public readonly options: EngineOption[] = [{ name: 'MultiPV', type: 'spin', default: 1, min: 1, max: 10 }];
+  private position: Position | null = Position.fromFen(START_FEN); // null after a rejected `position`
+  private history: bigint[] = [];
+  private multiPv = 1;
+  private worker: Worker | null = null;
+  private stopSignal: Int32Array | null = null; // Of the running search
+  private searching: Promise<void> = Promise.resolve();
+  private stopWaiter: (() => void) | null = null;
+  private running = false;
+  private stops = 0; // `stop`s received, so searches queued behind the running one see them too
+  private readonly analysis = new AnalysisQueue(this);
+
+  public start(): void {
+    if (this.running) return;
+    this.running = true;
+    this.worker = this.spawnWorker();
+    // Same handshake as UCIEngine, which sends `uci` on start
+    setImmediate(() => this.send('uci'));
+  }
+
+  public send(command: string): void {
+    if (!this.running) return;
+    const parts = command.trim().split(/\s+/);
+
+    switch (parts[0]) {
+      case 'uci':
+        this.output(`id name ${this.name}`);
+        this.output('option name MultiPV type spin default 1 min 1 max 10');
+        this.output('uciok');
+        this.emit('ready');
+        break;
+      case 'isready':
+        this.output('readyok');
+        this.emit('readyok');
+        break;
+      case 'setoption': {
+        const match = command.match(/^setoption\s+name\s+(.+?)\s+value\s+(.+)$/i);
+        if (match && match[1].toLowerCase() === 'multipv') {
+          this.multiPv = Math.min(10, Math.max(1, parseInt(match[2]) || 1));
+        }
+        break;
+      }
+      case 'ucinewgame':
+        this.setPosition(['startpos']);
+        break;
+      case 'position':
+        this.setPosition(parts.slice(1));
+        break;
+      case 'go':
+        this.go(parts.slice(1));
+        break;
+      case 'stop':
+        this.stop();
+        break;
+      case 'quit':
+        this.quit();
+        break;
+    }
+  }
+
+  /**
+   * Analyses a position, superseding earlier requests (see AnalysisQueue).
+   */
+  public analyze(request: AnalysisRequest, onInfo?: (info: EngineInfo) => void): Promise<AnalysisResult> {
+    return this.analysis.analyze(request, onInfo);
+  }
+
+  public cancelAnalysis(): void {
+    this.analysis.cancel();
+  }
+
+  public quit(): void {
+    if (!this.running) return;
+    this.stop();
+    this.running = false;
+    this.worker?.terminate();
+    this.worker = null;
+    this.emit('quit');
+  }
+
+  private output(line: string): void {
+    this.emit('line', line);
+  }
+
+  private stop(): void {
+    this.stops++;
+    if (this.stopSignal) Atomics.store(this.stopSignal, 0, 1);
+    this.stopWaiter?.();
+  }
+
+  // position [startpos | fen <fen>] [moves <m1> ...]
+  private setPosition(args: string[]): void {
+    const movesIndex = args.indexOf('moves');
+    const spec = movesIndex < 0 ? args : args.slice(0, movesIndex);
+    const moves = movesIndex < 0 ? [] : args.slice(movesIndex + 1);
+    try {
+      const position = Position.fromFen(spec[0] === 'fen' ? spec.slice(1).join(' ') : START_FEN);
+      const history: bigint[] = [];
+      for (const move of moves) {
+        history.push(position.hash);
+        position.makeMove(fromUciMove(move));
+      }
+      this.position = position;
+      this.history = history;
+    } catch (error) {
+      // Searching the previous position instead would answer with a move that does not fit
+      console.error('Built-in engine: invalid position', error);
+      this.position = null;
+    }
+  }
+
+  private go(args: string[]): void {
+    const value = (name: string) => {
+      const index = args.indexOf(name);
+      return index >= 0 ? parseInt(args[index + 1]) : undefined;
+    };
+    if (!this.position) {
+      this.searching = this.searching.then(() => this.answer([]));
+      return;
+    }
+    const limits: GoLimits = { depth: Math.min(value('depth') ?? MAX_DEPTH, MAX_DEPTH), infinite: args.includes('infinite') };
+
+    const clock = value(this.position.turn === 'w' ? 'wtime' : 'btime');
+    if (value('movetime') !== undefined) {
+      limits.movetime = value('movetime');
+    } else if (clock !== undefined) {
+      limits.movetime = clock / 20 + (value(this.position.turn === 'w' ? 'winc' : 'binc') ?? 0);
+    } else if (!limits.infinite) {
+      limits.movetime = DEPTH_TIME_LIMIT;
+    }
+
+    // A new `go` waits for the previous search, as UCI engines do
+    const position = this.position.clone();
+    const history = this.history;
+    const stops = this.stops;
+    this.searching = this.searching.then(() => this.search(position, history, limits, stops));
+  }
+
+  private async search(position: Position, history: bigint[], limits: GoLimits, stops: number): Promise<void> {
+    const started = Date.now();
+    const stop = new Int32Array(new SharedArrayBuffer(4));
+    this.stopSignal = stop;
+    // Stopped while waiting for the previous search: the worker still answers with a move
+    if (this.stops !== stops) Atomics.store(stop, 0, 1);
+    const stopped = () => Atomics.load(stop, 0) !== 0;
+
+    const lines = await this.runSearch({
+      fen: position.toFen(),
+      history,
+      depth: limits.depth,
+      deadline: limits.movetime !== undefined ? started + limits.movetime : undefined,
+      multiPv: this.multiPv,
+      infinite: limits.infinite,
+      stop: stop.buffer as SharedArrayBuffer
+    }, started);
+
+    // `go infinite` only answers after `stop`
+    if (limits.infinite && !stopped() && this.running) {
+      await new Promise<void>(resolve => { this.stopWaiter = resolve; });
+      this.stopWaiter = null;
+    }
+    this.stopSignal = null;
+    this.answer(lines);
+  }
+
+  // bestmove from the first line, `(none)` without one
+  private answer(lines: SearchLine[]): void {
+    if (!this.running) return;
+    const best = lines[0]?.pv;
+    const bestMove = best ? moveToUci(best[0]) : '(none)';
+    const ponder = best && best.length > 1 ? moveToUci(best[1]) : undefined;
+    this.output(`bestmove ${bestMove}${ponder ? ` ponder ${ponder}` : ''}`);
+    this.emit('bestmove', bestMove, ponder);
+  }
+
+  private spawnWorker(): Worker {
+    const worker = createSearchWorker({});
+    worker.unref(); // An idle engine does not keep the process alive
+    return worker;
+  }
+
+  // Settles with the lines of the last completed iteration, also when the worker is terminated
+  private runSearch(job: SearchJob, started: number): Promise<SearchLine[]> {
+    const worker = this.worker;
+    if (!worker) return Promise.resolve([]);
+    return new Promise(resolve => {
+      let lines: SearchLine[] = [];
+      const finish = () => {
+        worker.off('message', onMessage);
+        worker.off('error', onError);
+        worker.off('exit', finish);
+        worker.unref();
+        resolve(lines);
+      };
+      const onMessage = (message: SearchMessage) => {
+        if (message.type === 'done') return finish();
+        lines = message.lines;
+        this.report(message.depth, lines, message.nodes, Date.now() - started);
+      };
+      const onError = (error: Error) => {
+        console.error('Built-in engine: search failed', error);
+        // The worker is gone; the next search gets a new one
+        if (this.worker === worker) this.worker = this.running ? this.spawnWorker() : null;
+        finish();
+      };
+      worker.on('message', onMessage);
+      worker.on('error', onError);
+      worker.on('exit', finish);
+      worker.ref(); // Keep the process alive until the search answers
+      worker.postMessage(job);
+    });
+  }
+
+  private report(depth: number, lines: SearchLine[], nodes: number, time: number): void {
+    lines.slice(0, this.multiPv).forEach((line, i) => {
+      const mate = Math.abs(line.score) > MATE_BOUND;
+      const plies = MATE_SCORE - Math.abs(line.score);
+      const scoreType: EngineInfo['scoreType'] = mate ? 'mate' : 'cp';
+      const scoreValue = mate ? Math.sign(line.score) * Math.ceil(plies / 2) : line.score;
+      const pv = line.pv.map(moveToUci).join(' ');
+      const nps = time > 0 ? Math.round(nodes * 1000 / time) : nodes;
+      this.output(`info depth ${depth} multipv ${i + 1} score ${scoreType} ${scoreValue} nodes ${nodes} nps ${nps} time ${time} pv ${pv}`);
+      const info: EngineInfo = { depth, multipv: i + 1, scoreType, scoreValue, nodes, nps, time, pv };
+      this.emit('info', info);
+    });
+  }
+}
@@ -0,0 +1,22 @@
+import { describe, it, expect } from 'vitest';
+import { join } from 'path';
+import { selectEngineBinaries } from './engine-binary';
+
+const BIN_DIR = join(process.cwd(), 'resources/bin');
+const bin = (name: string) => join(BIN_DIR, `${name}.exe`);
+
+describe('selectEngineBinaries', () => {
+  it('should pick the fastest build the CPU supports, then the generic builds', () => {
+      const zen3 = new Set(['sse4_1', 'popcnt', 'avx2', 'bmi2']);
+      expect(selectEngineBinaries(BIN_DIR, zen3, '.exe')).toEqual([bin('pikafish-bmi2'), bin('pikafish-sse41-popcnt'), bin('pikafish')]);
+
+      const icelake = new Set([...zen3, 'avx512f', 'avx512bw', 'avx512vl', 'avx512_vnni']);
+      expect(selectEngineBinaries(BIN_DIR, icelake, '.exe')[0]).toBe(bin('pikafish-vnni512'));
+  });
+
+  it('should fall back to the avx2 build for unknown CPUs and skip missing files', () => {
+      expect(selectEngineBinaries(BIN_DIR, null, '.exe')[0]).toBe(bin('pikafish-avx2'));
+      expect(selectEngineBinaries(BIN_DIR, new Set(['sse4_1', 'popcnt']), '.exe')).toEqual([bin('pikafish-sse41-popcnt'), bin('pikafish')]);
+      expect(selectEngineBinaries(BIN_DIR, null, '.bin')).toEqual([]);
+  });
+});
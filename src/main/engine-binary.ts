@@ -0,0 +1,56 @@
+import { existsSync, readFileSync } from 'fs';
+import { join } from 'path';
+
+// Pikafish ships one build per instruction set. The builds are listed fastest
+// first with the CPU flags they need, as named in /proc/cpuinfo.
+
+interface EngineBuild {
+  name: string;
+  flags: string[];
+}
+
+const ENGINE_BUILDS: EngineBuild[] = [
+  {
+    name: 'pikafish-avx512icl',
+    flags: ['avx512f', 'avx512bw', 'avx512vl', 'avx512_vnni', 'avx512_vbmi', 'avx512_vbmi2', 'avx512_bitalg', 'avx512_vpopcntdq', 'avx512ifma', 'gfni', 'vaes', 'vpclmulqdq']
+  },
+  { name: 'pikafish-vnni512', flags: ['avx512f', 'avx512bw', 'avx512vl', 'avx512_vnni'] },
+  { name: 'pikafish-avx512', flags: ['avx512f', 'avx512bw'] },
+  { name: 'pikafish-avxvnni', flags: ['avx_vnni', 'avx2', 'bmi2'] },
+  { name: 'pikafish-bmi2', flags: ['avx2', 'bmi2'] },
+  { name: 'pikafish-avx2', flags: ['avx2', 'popcnt'] },
+  { name: 'pikafish-sse41-popcnt', flags: ['sse4_1', 'popcnt'] }
+];
+
+// Runs on any x86-64 CPU of the last 15 years
+const GENERIC_BUILD = 'pikafish-sse41-popcnt';
+// Tried first when the CPU flags cannot be read (Windows, macOS)
+const UNKNOWN_CPU_BUILD = 'pikafish-avx2';
+// A copy renamed as older versions of resources/bin/README.md asked
+const LEGACY_BUILD = 'pikafish';
+
+/**
+ * CPU flags from /proc/cpuinfo, or null where they cannot be read.
+ */
+export function readCpuFlags(): Set<string> | null {
+  if (process.platform !== 'linux') return null;
+  try {
+    const match = readFileSync('/proc/cpuinfo', 'utf8').match(/^flags\s*:(.*)$/m);
+    return match ? new Set(match[1].trim().split(/\s+/)) : null;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Bundled engine binaries in `dir` to try in order: the fastest build the CPU
+ * supports, then the generic build, then a plain `pikafish`. Binaries that
+ * are not present are left out.
+ */
+export function selectEngineBinaries(dir: string, flags: Set<string> | null, extension = process.platform === 'win32' ? '.exe' : ''): string[] {
+  const best = flags
+    ? ENGINE_BUILDS.find(build => build.flags.every(flag => flags.has(flag)))?.name
+    : UNKNOWN_CPU_BUILD;
+  const names = [...new Set([best, GENERIC_BUILD, LEGACY_BUILD].filter((name): name is string => !!name))];
+  return names.map(name => join(dir, name + extension)).filter(path => existsSync(path));
+}
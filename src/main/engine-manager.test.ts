@@ -0,0 +1,55 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { mkdtempSync, rmSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { EngineManager } from './engine-manager';
+import { EngineDescription } from '../shared/engine';
+
+describe('EngineManager', () => {
+  let dir: string;
+  let file: string;
+  let manager: EngineManager;
+
+  beforeEach(() => {
+    dir = mkdtempSync(join(tmpdir(), 'engines-'));
+    file = join(dir, 'engine-profiles.json');
+    manager = new EngineManager(file, dir); // No bundled builds in `dir`
+  });
+
+  afterEach(() => {
+    manager.stop();
+    rmSync(dir, { recursive: true, force: true });
+  });
+
+  it('should keep named profiles across restarts of the app', () => {
+    expect(manager.profiles).toEqual({ profiles: [{ name: 'Pikafish', path: null, protocol: 'uci', options: {} }], active: 'Pikafish' });
+
+    manager.addProfile('/engines/eleeye.exe', 'ucci');
+    manager.addProfile('/other/eleeye.exe');
+    expect(manager.profiles.profiles.map(p => p.name)).toEqual(['Pikafish', 'eleeye', 'eleeye (2)']);
+    expect(manager.activeProfile.name).toBe('eleeye (2)');
+
+    manager.removeProfile('eleeye (2)');
+    manager.updateProfile('eleeye', { protocol: 'uci' });
+    const reloaded = new EngineManager(file, dir);
+    expect(reloaded.activeProfile.name).toBe('Pikafish');
+    expect(reloaded.profiles.profiles[1]).toEqual({ name: 'eleeye', path: '/engines/eleeye.exe', protocol: 'uci', options: {} });
+
+    reloaded.removeProfile('eleeye');
+    reloaded.removeProfile('Pikafish');
+    expect(reloaded.profiles.profiles).toHaveLength(1);
+  });
+
+  it('should fall back to the built-in engine and save options in the profile', async () => {
+    manager.addProfile(join(dir, 'missing.exe'), 'ucci');
+    const options = new Promise<EngineDescription>(resolve => manager.once('options', resolve));
+    manager.start();
+    const description = await options;
+    expect(description).toMatchObject({ name: 'Built-in', path: null, customPath: true, profile: 'missing', values: { MultiPV: 3 } });
+
+    manager.setOption('MultiPV', 2);
+    expect(new EngineManager(file, dir).activeProfile.options).toEqual({ MultiPV: 2 });
+    const result = await manager.analyze({ fen: '3k5/9/3P5/9/9/9/9/9/9/R3K4 w - - 0 1', moves: [], limits: { depth: 3 } });
+    expect(result.bestmove).toBe('a0a9');
+  });
+});
@@ -0,0 +1,213 @@
+import { EventEmitter } from 'events';
+import { existsSync, readFileSync, writeFileSync } from 'fs';
+import { basename, extname } from 'path';
+import { UCIEngine } from './uci-engine';
+import { UCCIEngine } from './ucci-engine';
+import { BuiltinEngine } from './builtin-engine';
+import { readCpuFlags, selectEngineBinaries } from './engine-binary';
+import { AnalysisRequest, AnalysisResult, EngineDescription, EngineInfo, EngineOptionValue, EngineProfile, EngineProfiles, EngineProtocol } from '../shared/engine';
+
+// Keeps the user's engine profiles (saved as JSON) and runs the engine of the
+// active one. An engine that fails to start falls back to the bundled
+// Pikafish builds for this CPU, and those to the built-in engine.
+//
+// Events: 'status' ('ready' | 'restarting'), 'options' (EngineDescription) and
+// 'error' (message).
+
+interface Candidate {
+  path: string;
+  protocol: EngineProtocol;
+}
+
+const DEFAULT_OPTION_VALUES: Record<string, EngineOptionValue> = { MultiPV: 3 }; // The hints show three lines
+const DEFAULT_PROFILE: EngineProfile = { name: 'Pikafish', path: null, protocol: 'uci', options: {} };
+
+// Executables to try in order; the bundled builds back up a custom engine
+function engineCandidates(profile: EngineProfile, binDir: string): Candidate[] {
+  const bundled: Candidate[] = selectEngineBinaries(binDir, readCpuFlags()).map(path => ({ path, protocol: 'uci' }));
+  if (!profile.path) return bundled;
+  return [{ path: profile.path, protocol: profile.protocol }, ...bundled.filter(c => c.path !== profile.path)];
+}
+
+const engineFor = (candidate?: Candidate): UCIEngine | BuiltinEngine => {
+  if (!candidate) return new BuiltinEngine();
+  return candidate.protocol === 'ucci' ? new UCCIEngine(candidate.path) : new UCIEngine(candidate.path);
+};
+
+/**
+ * The engine of a profile, not started and without fallbacks (e.g. for
+ * matches). Without a path it is the bundled build for this CPU, or the
+ * built-in engine when there is none.
+ */
+export function createEngine(profile: EngineProfile, binDir: string): UCIEngine | BuiltinEngine {
+  return engineFor(engineCandidates(profile, binDir)[0]);
+}
+
+export class EngineManager extends EventEmitter {
+  private state: EngineProfiles;
+  private engine: UCIEngine | BuiltinEngine | null = null;
+
+  constructor(private readonly file: string, private readonly binDir: string) {
+    super();
+    this.state = this.load();
+  }
+
+  private load(): EngineProfiles {
+    try {
+      if (existsSync(this.file)) {
+        const state: EngineProfiles = JSON.parse(readFileSync(this.file, 'utf8'));
+        if (state.profiles.length > 0) return state;
+      }
+    } catch (e) {
+      console.error('Failed to load engine profiles:', e);
+    }
+    return { profiles: [{ ...DEFAULT_PROFILE, options: {} }], active: DEFAULT_PROFILE.name };
+  }
+
+  private save(): void {
+    try {
+      writeFileSync(this.file, JSON.stringify(this.state, null, 2));
+    } catch (e) {
+      console.error('Failed to save engine profiles:', e);
+    }
+  }
+
+  get profiles(): EngineProfiles {
+    return this.state;
+  }
+
+  get activeProfile(): EngineProfile {
+    return this.state.profiles.find(p => p.name === this.state.active) ?? this.state.profiles[0];
+  }
+
+  public start(): void {
+    if (this.engine) return;
+    this.launch(engineCandidates(this.activeProfile, this.binDir));
+  }
+
+  public stop(): void {
+    this.engine?.quit();
+    this.engine = null;
+  }
+
+  public restart(): void {
+    this.stop();
+    this.emit('status', 'restarting');
+    this.start();
+  }
+
+  private launch([candidate, ...fallbacks]: Candidate[]): void {
+    console.log(candidate ? `Starting engine at: ${candidate.path}` : 'Starting built-in engine');
+    const instance = engineFor(candidate);
+    this.engine = instance;
+
+    instance.on('ready', () => {
+      if (this.engine !== instance) return;
+      // Re-apply the saved options after every (re)start
+      const description = this.describe()!;
+      for (const [name, value] of Object.entries(description.values)) {
+        instance.send(`setoption name ${name} value ${value}`);
+      }
+      this.emit('status', 'ready');
+      this.emit('options', description);
+    });
+    instance.on('error', (err) => this.emit('error', err.message));
+    instance.on('crashed', (code) => {
+      console.log(`Engine crashed with code ${code}. Restarting...`);
+      this.emit('status', 'restarting');
+    });
+    instance.on('failed', () => {
+      if (this.engine !== instance) return;
+      console.warn(`Engine failed to start: ${candidate.path}`);
+      this.launch(fallbacks);
+    });
+
+    instance.start();
+  }
+
+  public describe(): EngineDescription | null {
+    const instance = this.engine;
+    if (!instance) return null;
+    const profile = this.activeProfile;
+    const values = { ...DEFAULT_OPTION_VALUES, ...profile.options };
+    const advertised = new Set(instance.options.filter(o => o.type !== 'button').map(o => o.name));
+    return {
+      name: instance.name,
+      author: instance.author,
+      options: instance.options,
+      values: Object.fromEntries(Object.entries(values).filter(([name]) => advertised.has(name))),
+      path: instance instanceof UCIEngine ? instance.enginePath : null,
+      customPath: profile.path !== null,
+      profile: profile.name
+    };
+  }
+
+  /**
+   * Sets an engine option and saves it in the active profile. Buttons are sent
+   * without a value and are not saved.
+   */
+  public setOption(name: string, value?: EngineOptionValue): void {
+    if (!this.engine) return;
+    if (value === undefined) {
+      this.engine.send(`setoption name ${name}`);
+      return;
+    }
+    this.engine.send(`setoption name ${name} value ${value}`);
+    this.activeProfile.options[name] = value;
+    this.save();
+  }
+
+  public analyze(request: AnalysisRequest, onInfo?: (info: EngineInfo) => void): Promise<AnalysisResult> {
+    if (!this.engine) return Promise.resolve({ bestmove: null, cancelled: true });
+    return this.engine.analyze(request, onInfo);
+  }
+
+  public cancelAnalysis(): void {
+    this.engine?.cancelAnalysis();
+  }
+
+  // Profile changes take effect at once if the engine is running
+
+  public selectProfile(name: string): void {
+    if (!this.state.profiles.some(p => p.name === name)) return;
+    this.state.active = name;
+    this.save();
+    if (this.engine) this.restart();
+  }
+
+  /**
+   * Adds a profile for an executable, named after the file, and makes it active.
+   */
+  public addProfile(path: string, protocol: EngineProtocol = 'uci'): EngineProfile {
+    const base = basename(path, extname(path));
+    let name = base;
+    for (let i = 2; this.state.profiles.some(p => p.name === name); i++) name = `${base} (${i})`;
+
+    const profile: EngineProfile = { name, path, protocol, options: {} };
+    this.state.profiles.push(profile);
+    this.selectProfile(name);
+    return profile;
+  }
+
+  public updateProfile(name: string, changes: Partial<Pick<EngineProfile, 'path' | 'protocol'>>): void {
+    const profile = this.state.profiles.find(p => p.name === name);
+    if (!profile) return;
+    Object.assign(profile, changes);
+    this.save();
+    if (this.engine && name === this.activeProfile.name) this.restart();
+  }
+
+  /**
+   * Removes a profile; the last one stays.
+   */
+  public removeProfile(name: string): void {
+    if (this.state.profiles.length <= 1) return;
+    const wasActive = name === this.activeProfile.name;
+    this.state.profiles = this.state.profiles.filter(p => p.name !== name);
+    if (wasActive) {
+      this.selectProfile(this.state.profiles[0].name);
+    } else {
+      this.save();
+    }
+  }
+}
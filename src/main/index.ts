@@ -1,10 +1,35 @@
-import { app, shell, BrowserWindow, ipcMain, desktopCapturer } from 'electron'
-import { join } from 'path'
+import { app, shell, BrowserWindow, ipcMain, desktopCapturer, dialog, clipboard } from 'electron'
+import { join, basename } from 'path'
 import { writeFileSync, readFileSync, existsSync } from 'fs'
 import { electronApp, optimizer, is } from '@electron-toolkit/utils'
-import { UCIEngine } from './uci-engine'
+import { OpeningBook, buildBookFromFolder } from './opening-book'
+import { EngineManager, createEngine } from './engine-manager'
+import { MatchPlayer, MatchRunner } from './match-runner'
+import { START_FEN } from '../renderer/src/lib/xiangqi'
+import { EngineDescription, EngineOptionValue, EngineProtocol, AnalysisRequest } from '../shared/engine'
+import { MatchReport, MatchSettings } from '../shared/match'
 
-let engine: UCIEngine | null = null;
+let engines: EngineManager | null = null;
+let match: MatchRunner | null = null;
+let matchStarting = false; // Save dialog of a new match open
+let book: { name: string, book: OpeningBook } | null = null;
+
+// Bundled engine binaries and book
+const getBinDir = () => (is.dev ? join(__dirname, '../../resources/bin') : join(process.resourcesPath, 'bin'));
+
+// Default opening book next to the engine binaries; a missing book is not an error
+const loadDefaultBook = () => {
+  const path = join(getBinDir(), 'book.bin');
+  if (!existsSync(path)) return;
+  try {
+    book = { name: basename(path), book: OpeningBook.load(path) };
+  } catch (e) {
+    console.error('Failed to load opening book:', e);
+  }
+};
+
+// Engine profiles live in the user's data folder
+const createEngineManager = () => new EngineManager(join(app.getPath('userData'), 'engine-profiles.json'), getBinDir());
 
 // Window state management
 const getStatePath = () => join(app.getPath('userData'), 'window-state.json');
@@ -65,32 +90,26 @@ function createWindow(): void {
     return { action: 'deny' }
   })
 
+  const manager = engines!;
+  manager.on('status', (status: string) => mainWindow.webContents.send('engine:status', status));
+  manager.on('options', (description: EngineDescription) => mainWindow.webContents.send('engine:options', description));
+  manager.on('error', (message: string) => mainWindow.webContents.send('engine:error', message));
+
+  const chooseEngineFile = async () => {
+    const { canceled, filePaths } = await dialog.showOpenDialog(mainWindow, {
+      title: '选择引擎 (Choose engine)',
+      properties: ['openFile'],
+      filters: process.platform === 'win32'
+        ? [{ name: '引擎 (Engine)', extensions: ['exe'] }, { name: 'All Files', extensions: ['*'] }]
+        : [{ name: 'All Files', extensions: ['*'] }]
+    });
+    return canceled || filePaths.length === 0 ? null : filePaths[0];
+  };
+
   // IPC Handlers
   ipcMain.handle('engine:start', () => {
-    if (engine) return true;
-    
-    // TODO: Make this path configurable or auto-detect
-    // For dev: assume it's in resources/bin/pikafish.exe
-    // For prod: process.resourcesPath
-    const enginePath = is.dev 
-      ? join(__dirname, '../../resources/bin/pikafish.exe') 
-      : join(process.resourcesPath, 'bin/pikafish.exe');
-      
-    console.log('Starting engine at:', enginePath);
-    
     try {
-        engine = new UCIEngine(enginePath);
-        
-        engine.on('ready', () => mainWindow.webContents.send('engine:status', 'ready'));
-        engine.on('info', (info) => mainWindow.webContents.send('engine:info', info));
-        engine.on('bestmove', (move) => mainWindow.webContents.send('engine:bestmove', move));
-        engine.on('error', (err) => mainWindow.webContents.send('engine:error', err.message));
-        engine.on('crashed', (code) => {
-          console.log(`Engine crashed with code ${code}. Restarting...`);
-          mainWindow.webContents.send('engine:status', 'restarting');
-        });
-        
-        engine.start();
+        manager.start();
         return true;
     } catch (e: any) {
         console.error(e);
@@ -98,19 +117,92 @@ function createWindow(): void {
     }
   });
 
-  ipcMain.handle('engine:send', (_, command: string) => {
-    if (engine) {
-      engine.send(command);
-    }
+  // Infos are tagged with the renderer's request id; the reply is the result
+  ipcMain.handle('engine:analyze', (_, id: number, request: AnalysisRequest) =>
+    manager.analyze(request, (info) => mainWindow.webContents.send('engine:info', id, info)));
+
+  ipcMain.handle('engine:cancel', () => manager.cancelAnalysis());
+
+  ipcMain.handle('engine:describe', () => manager.describe());
+
+  ipcMain.handle('engine:setOption', (_, name: string, value?: EngineOptionValue) => manager.setOption(name, value));
+
+  // Executable of the active profile; null goes back to the bundled build for this CPU
+  ipcMain.handle('engine:choosePath', async () => {
+    const path = await chooseEngineFile();
+    if (!path) return false;
+    manager.updateProfile(manager.activeProfile.name, { path });
+    return true;
   });
 
-  ipcMain.handle('engine:stop', () => {
-    if (engine) {
-      engine.quit();
-      engine = null;
+  ipcMain.handle('engine:resetPath', () => manager.updateProfile(manager.activeProfile.name, { path: null }));
+
+  ipcMain.handle('engine:profiles', () => manager.profiles);
+
+  ipcMain.handle('engine:selectProfile', (_, name: string) => {
+    manager.selectProfile(name);
+    return manager.profiles;
+  });
+
+  ipcMain.handle('engine:addProfile', async () => {
+    const path = await chooseEngineFile();
+    if (path) manager.addProfile(path);
+    return manager.profiles;
+  });
+
+  ipcMain.handle('engine:setProtocol', (_, protocol: EngineProtocol) => {
+    manager.updateProfile(manager.activeProfile.name, { protocol });
+    return manager.profiles;
+  });
+
+  ipcMain.handle('engine:removeProfile', (_, name: string) => {
+    manager.removeProfile(name);
+    return manager.profiles;
+  });
+
+  ipcMain.handle('engine:stop', () => manager.stop());
+
+  // Engine matches between two profiles, each engine started apart from the
+  // analysis engine. The games go to a PGN file chosen first; progress is
+  // reported after every game and the reply is the final report.
+  ipcMain.handle('match:start', async (_, settings: MatchSettings) => {
+    // Checked and set before the dialog, so a second click starts no second match
+    if (match || matchStarting) return null;
+    matchStarting = true;
+    let filePath: string | undefined;
+    try {
+      const choice = await dialog.showSaveDialog(mainWindow, {
+        title: '保存对局 (Save match games)',
+        defaultPath: `${settings.profiles[0]} vs ${settings.profiles[1]}.pgn`,
+        filters: [{ name: 'PGN', extensions: ['pgn'] }]
+      });
+      if (choice.canceled) return null;
+      filePath = choice.filePath;
+    } finally {
+      matchStarting = false;
+    }
+    if (!filePath) return null;
+
+    const players = settings.profiles.map((name): MatchPlayer => {
+      const profile = manager.profiles.profiles.find(p => p.name === name);
+      if (!profile) throw new Error(`未找到引擎方案 (Engine profile not found): ${name}`);
+      return { name, engine: createEngine(profile, getBinDir()), options: profile.options };
+    }) as [MatchPlayer, MatchPlayer];
+    const openings = settings.openings.length > 0 ? settings.openings : [START_FEN];
+
+    writeFileSync(filePath, '', 'utf8');
+    const runner = new MatchRunner(players, { ...settings, openings }, filePath);
+    runner.on('game', (report: MatchReport) => mainWindow.webContents.send('match:progress', report));
+    match = runner;
+    try {
+      return await runner.run();
+    } finally {
+      match = null;
     }
   });
 
+  ipcMain.handle('match:stop', () => match?.stop());
+
   ipcMain.handle('vision:predict', async (_, imageBase64: string) => {
     try {
       const base64Data = imageBase64.replace(/^data:image\/\w+;base64,/, "");
@@ -166,6 +258,72 @@ function createWindow(): void {
     }
   });
 
+  // Game files: the renderer parses and formats the records, main only does the file I/O
+  const openGameFile = async (title: string, filters: Electron.FileFilter[]) => {
+    const { canceled, filePaths } = await dialog.showOpenDialog(mainWindow, {
+      title,
+      properties: ['openFile'],
+      filters: [...filters, { name: 'All Files', extensions: ['*'] }]
+    });
+    if (canceled || filePaths.length === 0) return null;
+    return { name: basename(filePaths[0]), data: new Uint8Array(readFileSync(filePaths[0])) };
+  };
+
+  ipcMain.handle('game:open', () => openGameFile('打开棋谱 (Open game)', [{ name: '棋谱 (Game records)', extensions: ['pgn'] }]));
+
+  // Legacy binary formats converted on import (XQF)
+  ipcMain.handle('game:import', () => openGameFile('导入棋谱 (Import game)', [{ name: 'XQF', extensions: ['xqf'] }]));
+
+  ipcMain.handle('game:save', async (_, content: string, defaultName: string) => {
+    const { canceled, filePath } = await dialog.showSaveDialog(mainWindow, {
+      title: '保存棋谱 (Save game)',
+      defaultPath: defaultName,
+      filters: [{ name: 'PGN', extensions: ['pgn'] }]
+    });
+    if (canceled || !filePath) return null;
+    writeFileSync(filePath, content, 'utf8');
+    return filePath;
+  });
+
+  // Clipboard text for pasting/copying game records (DhtmlXQ)
+  ipcMain.handle('clipboard:readText', () => clipboard.readText());
+  ipcMain.handle('clipboard:writeText', (_, text: string) => clipboard.writeText(text));
+
+  // Opening book lookups for AI moves and hints
+  const bookInfo = () => (book ? { name: book.name, size: book.book.size } : null);
+  ipcMain.handle('book:info', () => bookInfo());
+  ipcMain.handle('book:open', async () => {
+    const { canceled, filePaths } = await dialog.showOpenDialog(mainWindow, {
+      title: '载入开局库 (Load opening book)',
+      properties: ['openFile'],
+      filters: [{ name: '开局库 (Opening book)', extensions: ['bin'] }, { name: 'All Files', extensions: ['*'] }]
+    });
+    if (canceled || filePaths.length === 0) return null;
+    book = { name: basename(filePaths[0]), book: OpeningBook.load(filePaths[0]) };
+    return bookInfo();
+  });
+  // A book built from a folder of games is saved, then used straight away
+  ipcMain.handle('book:build', async () => {
+    const folder = await dialog.showOpenDialog(mainWindow, {
+      title: '选择棋谱文件夹 (Choose a folder of games)',
+      properties: ['openDirectory']
+    });
+    if (folder.canceled || folder.filePaths.length === 0) return null;
+    const { data, games, skipped } = buildBookFromFolder(folder.filePaths[0]);
+
+    const { canceled, filePath } = await dialog.showSaveDialog(mainWindow, {
+      title: '保存开局库 (Save opening book)',
+      defaultPath: 'book.bin',
+      filters: [{ name: '开局库 (Opening book)', extensions: ['bin'] }]
+    });
+    if (canceled || !filePath) return null;
+    writeFileSync(filePath, data);
+    book = { name: basename(filePath), book: OpeningBook.fromBuffer(data) };
+    return { ...bookInfo()!, games, skipped };
+  });
+  ipcMain.handle('book:lookup', (_, fen: string) => book?.book.lookup(fen) ?? []);
+  ipcMain.handle('book:pick', (_, fen: string) => book?.book.pick(fen) ?? null);
+
   // HMR for renderer base on electron-vite cli.
   // Load the remote URL for development or the local html file for production.
   if (is.dev && process.env['ELECTRON_RENDERER_URL']) {
@@ -189,6 +347,8 @@ app.whenReady().then(() => {
     optimizer.watchWindowShortcuts(window)
   })
 
+  loadDefaultBook()
+  engines = createEngineManager()
   createWindow()
 
   app.on('activate', function () {
@@ -202,6 +362,7 @@ app.whenReady().then(() => {
 // for applications and their menu bar to stay active until the user quits
 // explicitly with Cmd + Q.
 app.on('window-all-closed', () => {
+  match?.stop()
   if (process.platform !== 'darwin') {
     app.quit()
   }
@@ -0,0 +1,130 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { EventEmitter } from 'events';
+import { mkdtempSync, readFileSync, rmSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { MatchRunner } from './match-runner';
+import { BuiltinEngine } from './builtin-engine';
+import { AnalysisResult } from '../shared/engine';
+import { MatchReport, MatchSettings } from '../shared/match';
+
+// Red mates in one (Rook to the back rank), so every game is decided by the first move
+const MATE_IN_ONE = '3k5/9/3P5/9/9/9/9/9/9/R3K4 w - - 0 1';
+
+const SETTINGS: MatchSettings = {
+  profiles: ['A', 'B'],
+  games: 2,
+  openings: [MATE_IN_ONE],
+  time: 5000,
+  increment: 0,
+  ruleSet: 'asian',
+  sprt: { elo0: 0, elo1: 10, alpha: 0.05, beta: 0.05 }
+};
+
+// Answers every search with the same move
+class ScriptedEngine extends EventEmitter {
+  public readonly options = [];
+  constructor(private readonly bestmove: string | null) {
+    super();
+  }
+  start(): void {
+    setImmediate(() => this.emit('ready'));
+  }
+  send(): void {}
+  analyze(): Promise<AnalysisResult> {
+    return Promise.resolve({ bestmove: this.bestmove, cancelled: false });
+  }
+  cancelAnalysis(): void {}
+  quit(): void {}
+}
+
+// Never finishes its handshake, or never answers a search
+class SilentEngine extends ScriptedEngine {
+  constructor(private readonly starts: boolean) {
+    super(null);
+  }
+  start(): void {
+    if (this.starts) super.start();
+  }
+  analyze(): Promise<AnalysisResult> {
+    return new Promise(() => {});
+  }
+}
+
+describe('MatchRunner', () => {
+  let dir: string;
+
+  beforeEach(() => {
+    dir = mkdtempSync(join(tmpdir(), 'match-'));
+  });
+
+  afterEach(() => {
+    rmSync(dir, { recursive: true, force: true });
+  });
+
+  it('should alternate colours, count the results and save the games', async () => {
+      const pgnPath = join(dir, 'match.pgn');
+      const runner = new MatchRunner([
+        { name: 'A', engine: new BuiltinEngine(), options: {} },
+        { name: 'B', engine: new BuiltinEngine(), options: { MultiPV: 3 } }
+      ], SETTINGS, pgnPath);
+      const reports: MatchReport[] = [];
+      runner.on('game', report => reports.push(report));
+
+      const report = await runner.run();
+      expect(report).toMatchObject({ players: ['A', 'B'], games: 2, wins: 1, draws: 0, losses: 1 });
+      expect(report.elo).toBeCloseTo(0);
+      expect(reports.map(r => r.lastGame)).toEqual([
+        { red: 'A', black: 'B', result: '1-0', reason: '绝杀 (Checkmate)' },
+        { red: 'B', black: 'A', result: '1-0', reason: '绝杀 (Checkmate)' }
+      ]);
+
+      const pgn = readFileSync(pgnPath, 'utf8');
+      expect(pgn.match(/\[Round "\d"\]/g)).toEqual(['[Round "1"]', '[Round "2"]']);
+      expect(pgn).toContain('[Red "B"]');
+      expect(pgn).toContain(`[FEN "${MATE_IN_ONE}"]`);
+      expect(pgn).toContain('[Termination "绝杀 (Checkmate)"]');
+      expect(pgn).toContain('1. A0-A9 1-0');
+  });
+
+  it('should score an illegal move or a missing move as a loss', async () => {
+      const illegal = await new MatchRunner([
+        { name: 'A', engine: new BuiltinEngine(), options: {} },
+        { name: 'B', engine: new ScriptedEngine('d9d8'), options: {} } // Moves Black's King as Red
+      ], SETTINGS).run();
+      expect(illegal).toMatchObject({ wins: 2, losses: 0 });
+
+      const runner = new MatchRunner([
+        { name: 'A', engine: new ScriptedEngine(null), options: {} },
+        { name: 'B', engine: new BuiltinEngine(), options: {} }
+      ], { ...SETTINGS, games: 1 });
+      const game = new Promise<MatchReport>(resolve => runner.once('game', resolve));
+      await runner.run();
+      expect((await game).lastGame).toMatchObject({ red: 'A', result: '0-1', reason: '引擎未给出着法 (No move from engine)' });
+  });
+
+  it('should give up on an engine that never starts or never answers', async () => {
+      vi.useFakeTimers({ toFake: ['setTimeout', 'clearTimeout'] });
+      try {
+        const unstarted = new MatchRunner([
+          { name: 'A', engine: new BuiltinEngine(), options: {} },
+          { name: 'B', engine: new SilentEngine(false), options: {} }
+        ], SETTINGS).run();
+        const failed = expect(unstarted).rejects.toThrow('引擎启动超时 (Engine timed out starting): B');
+        await vi.advanceTimersByTimeAsync(20000);
+        await failed;
+
+        const runner = new MatchRunner([
+          { name: 'A', engine: new SilentEngine(true), options: {} },
+          { name: 'B', engine: new BuiltinEngine(), options: {} }
+        ], { ...SETTINGS, games: 1 });
+        const game = new Promise<MatchReport>(resolve => runner.once('game', resolve));
+        const run = runner.run();
+        await vi.advanceTimersByTimeAsync(SETTINGS.time + 6000);
+        await run;
+        expect((await game).lastGame).toMatchObject({ red: 'A', result: '0-1', reason: '引擎无响应 (Engine not responding)' });
+      } finally {
+        vi.useRealTimers();
+      }
+  });
+});
@@ -0,0 +1,215 @@
+import { EventEmitter } from 'events';
+import { appendFileSync } from 'fs';
+import { Move, PieceColor, applyMoveToFen, fromUciMove, getGameStatus, isLegalMove, parseFen } from '../renderer/src/lib/xiangqi';
+import { HistoryEntry, judgeRepetition } from '../renderer/src/lib/rules';
+import { GameResult, createGameRecord } from '../renderer/src/lib/game';
+import { writePgn } from '../renderer/src/lib/pgn';
+import { eloDifference, sprt, MatchScore } from './match-stats';
+import { AnalysisRequest, AnalysisResult, EngineInfo, EngineOption, EngineOptionValue } from '../shared/engine';
+import { MatchReport, MatchSettings } from '../shared/match';
+
+// Plays a match between two engines without a board on screen. Each opening
+// is played twice with the colours swapped. Games are adjudicated by the
+// rules module (mate, stalemate, the natural move limit and repetitions) and
+// by the clock, and appended to a PGN file as they finish. The match ends
+// early once the SPRT accepts either hypothesis.
+//
+// Events: 'game' (MatchReport after each game).
+
+export interface MatchEngine extends EventEmitter {
+  readonly options: EngineOption[];
+  start(): void;
+  send(command: string): void;
+  analyze(request: AnalysisRequest, onInfo?: (info: EngineInfo) => void): Promise<AnalysisResult>;
+  cancelAnalysis(): void;
+  quit(): void;
+}
+
+export interface MatchPlayer {
+  name: string;
+  engine: MatchEngine;
+  options: Record<string, EngineOptionValue>; // Set after the handshake
+}
+
+interface GameOutcome {
+  result: GameResult; // '*' when the match was stopped during the game
+  reason: string;
+  moves: Move[];
+}
+
+const MAX_PLIES = 400; // Longer games are drawn
+const CLOCK_GRACE = 1000; // Milliseconds past the flag before a search is stopped
+const STOP_GRACE = 5000; // Milliseconds for a stopped search to answer before the game is lost
+const STARTUP_TIMEOUT = 20000; // Milliseconds for an engine to finish its handshake
+
+const UCI_MOVE = /^[a-i]\d[a-i]\d$/;
+
+export class MatchRunner extends EventEmitter {
+  private readonly score: MatchScore = { wins: 0, draws: 0, losses: 0 };
+  private lastGame: MatchReport['lastGame'];
+  private stopped = false;
+
+  constructor(
+    private readonly players: [MatchPlayer, MatchPlayer],
+    private readonly settings: MatchSettings,
+    private readonly pgnPath: string | null = null
+  ) {
+    super();
+  }
+
+  /**
+   * Plays the match and settles with the final report. Rejects if an engine
+   * fails to start.
+   */
+  public async run(): Promise<MatchReport> {
+    try {
+      await Promise.all(this.players.map(player => this.startEngine(player)));
+
+      const { games, openings } = this.settings;
+      for (let i = 0; i < games && !this.stopped; i++) {
+        const opening = openings[Math.floor(i / 2) % openings.length];
+        const [red, black] = i % 2 === 0 ? this.players : [this.players[1], this.players[0]];
+        const outcome = await this.playGame(opening, { w: red, b: black });
+        if (outcome.result === '*') break;
+
+        const firstIsRed = red === this.players[0];
+        if (outcome.result === '1/2-1/2') this.score.draws++;
+        else if ((outcome.result === '1-0') === firstIsRed) this.score.wins++;
+        else this.score.losses++;
+
+        this.savePgn(opening, outcome, red.name, black.name, i + 1);
+        this.lastGame = { red: red.name, black: black.name, result: outcome.result, reason: outcome.reason };
+        const report = this.report();
+        this.emit('game', report);
+        if (report.sprt.result) break;
+      }
+      return this.report();
+    } finally {
+      for (const { engine } of this.players) engine.quit();
+    }
+  }
+
+  /**
+   * Stops the match; the game in progress is not counted.
+   */
+  public stop(): void {
+    this.stopped = true;
+    for (const { engine } of this.players) engine.cancelAnalysis();
+  }
+
+  private startEngine({ name, engine, options }: MatchPlayer): Promise<void> {
+    return new Promise((resolve, reject) => {
+      const timer = setTimeout(() => reject(new Error(`引擎启动超时 (Engine timed out starting): ${name}`)), STARTUP_TIMEOUT);
+      // Also after the engine restarts following a crash
+      engine.on('ready', () => {
+        clearTimeout(timer);
+        for (const [option, value] of Object.entries(options)) {
+          engine.send(`setoption name ${option} value ${value}`);
+        }
+        // Extra lines only slow the search down
+        if (engine.options.some(o => o.name === 'MultiPV')) engine.send('setoption name MultiPV value 1');
+        resolve();
+      });
+      engine.once('failed', () => {
+        clearTimeout(timer);
+        reject(new Error(`引擎无法启动 (Engine failed to start): ${name}`));
+      });
+      engine.start();
+    });
+  }
+
+  private async playGame(opening: string, players: Record<PieceColor, MatchPlayer>): Promise<GameOutcome> {
+    const { time, increment, ruleSet } = this.settings;
+    const clocks: Record<PieceColor, number> = { w: time, b: time };
+    const history: HistoryEntry[] = [];
+    const uciMoves: string[] = [];
+    let fen = opening;
+
+    const end = (result: GameResult, reason: string): GameOutcome => ({ result, reason, moves: history.map(entry => entry.move) });
+    const lose = (color: PieceColor, reason: string) => end(color === 'w' ? '0-1' : '1-0', reason);
+
+    players.w.engine.send('ucinewgame');
+    players.b.engine.send('ucinewgame');
+
+    for (;;) {
+      const { status, turn } = getGameStatus(fen);
+      if (status === 'checkmate') return lose(turn, '绝杀 (Checkmate)');
+      if (status === 'stalemate') return lose(turn, '困毙 (Stalemate)');
+      if (status === 'draw') return end('1/2-1/2', '六十回合自然限着 (60-move rule)');
+      const verdict = judgeRepetition(history, fen, ruleSet);
+      if (verdict) return verdict.result === 'loss' ? lose(verdict.loser!, verdict.reason) : end('1/2-1/2', verdict.reason);
+      if (history.length >= MAX_PLIES) return end('1/2-1/2', '着数过多 (Move limit)');
+      if (this.stopped) return end('*', '中止 (Stopped)');
+
+      const { engine } = players[turn];
+      const started = Date.now();
+      const timer = setTimeout(() => engine.cancelAnalysis(), clocks[turn] + CLOCK_GRACE);
+      // An engine that ignores `stop` (or went down mid-search) must not stall the match
+      let deadline: NodeJS.Timeout | undefined;
+      const result = await Promise.race([
+        engine.analyze({
+          fen: opening,
+          moves: uciMoves,
+          limits: { wtime: clocks.w, btime: clocks.b, winc: increment, binc: increment }
+        }),
+        new Promise<null>(resolve => {
+          deadline = setTimeout(() => resolve(null), clocks[turn] + CLOCK_GRACE + STOP_GRACE);
+        })
+      ]);
+      clearTimeout(timer);
+      clearTimeout(deadline);
+      if (this.stopped) return end('*', '中止 (Stopped)');
+      if (!result) return lose(turn, '引擎无响应 (Engine not responding)');
+      const { bestmove } = result;
+
+      clocks[turn] -= Date.now() - started;
+      if (clocks[turn] < 0) return lose(turn, '超时 (Time forfeit)');
+      clocks[turn] += increment;
+
+      if (!bestmove) return lose(turn, '引擎未给出着法 (No move from engine)');
+      const { board } = parseFen(fen);
+      const move = UCI_MOVE.test(bestmove) ? fromUciMove(bestmove) : null;
+      if (!move || board[move.from.row][move.from.col]?.color !== turn || !isLegalMove(board, move)) {
+        return lose(turn, `非法着法 (Illegal move): ${bestmove}`);
+      }
+
+      history.push({ fen, move });
+      uciMoves.push(bestmove);
+      fen = applyMoveToFen(fen, move);
+    }
+  }
+
+  private savePgn(opening: string, outcome: GameOutcome, red: string, black: string, round: number): void {
+    if (!this.pgnPath) return;
+    const { time, increment } = this.settings;
+    const now = new Date();
+    const date = `${now.getFullYear()}.${String(now.getMonth() + 1).padStart(2, '0')}.${String(now.getDate()).padStart(2, '0')}`;
+    const record = createGameRecord(opening, outcome.moves, {
+      Event: `${this.players[0].name} vs ${this.players[1].name}`,
+      Date: date,
+      Round: String(round),
+      Red: red,
+      Black: black,
+      TimeControl: `${time / 1000}+${increment / 1000}`,
+      Termination: outcome.reason
+    }, outcome.result);
+    try {
+      appendFileSync(this.pgnPath, writePgn(record) + '\n', 'utf8');
+    } catch (e) {
+      console.error('Failed to save match game:', e);
+    }
+  }
+
+  private report(): MatchReport {
+    const { elo, margin } = eloDifference(this.score);
+    return {
+      players: [this.players[0].name, this.players[1].name],
+      games: this.score.wins + this.score.draws + this.score.losses,
+      ...this.score,
+      elo,
+      eloMargin: margin,
+      sprt: sprt(this.score, this.settings.sprt),
+      lastGame: this.lastGame
+    };
+  }
+}
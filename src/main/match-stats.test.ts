@@ -0,0 +1,40 @@
+import { describe, it, expect } from 'vitest';
+import { eloDifference, sprt } from './match-stats';
+
+const SPRT = { elo0: 0, elo1: 10, alpha: 0.05, beta: 0.05 };
+
+describe('eloDifference', () => {
+  it('should convert the score to Elo with a 95% margin', () => {
+      expect(eloDifference({ wins: 0, draws: 0, losses: 0 })).toEqual({ elo: 0, margin: 0 });
+
+      const even = eloDifference({ wins: 30, draws: 40, losses: 30 });
+      expect(even.elo).toBeCloseTo(0);
+      expect(even.margin).toBeCloseTo(53.16, 1);
+
+      const ahead = eloDifference({ wins: 50, draws: 30, losses: 20 });
+      expect(ahead.elo).toBeCloseTo(107.54, 1);
+      expect(ahead.margin).toBeCloseTo(59.16, 1);
+  });
+
+  it('should be unbounded when the interval reaches a perfect score', () => {
+      expect(eloDifference({ wins: 3, draws: 0, losses: 1 }).margin).toBe(Infinity);
+      expect(eloDifference({ wins: 2, draws: 0, losses: 0 }).elo).toBe(Infinity);
+  });
+});
+
+describe('sprt', () => {
+  it('should accept H1 or H0 once the log-likelihood ratio leaves the bounds', () => {
+      const open = sprt({ wins: 50, draws: 30, losses: 20 }, SPRT);
+      expect(open.llr).toBeCloseTo(1.347, 3);
+      expect(open.lowerBound).toBeCloseTo(-2.944, 3);
+      expect(open.upperBound).toBeCloseTo(2.944, 3);
+      expect(open.result).toBeNull();
+
+      expect(sprt({ wins: 150, draws: 90, losses: 60 }, SPRT).result).toBe('H1');
+      expect(sprt({ wins: 60, draws: 90, losses: 150 }, SPRT).result).toBe('H0');
+  });
+
+  it('should stay undecided without games', () => {
+      expect(sprt({ wins: 0, draws: 0, losses: 0 }, SPRT)).toMatchObject({ llr: 0, result: null });
+  });
+});
@@ -0,0 +1,51 @@
+import { SprtSettings, SprtResult } from '../shared/match';
+
+// Match statistics from win/draw/loss counts, using the logistic Elo model
+// and the normal approximation of the per-game score (as fishtest does).
+
+export interface MatchScore {
+  wins: number;
+  draws: number;
+  losses: number;
+}
+
+const Z_95 = 1.959964;
+
+const eloFromScore = (score: number) => -400 * Math.log10(1 / score - 1);
+const scoreFromElo = (elo: number) => 1 / (1 + Math.pow(10, -elo / 400));
+
+// Mean score per game and the variance of a single game's score
+function scoreStats({ wins, draws, losses }: MatchScore): { n: number, mean: number, variance: number } {
+  const n = wins + draws + losses;
+  if (n === 0) return { n, mean: 0.5, variance: 0 };
+  const mean = (wins + draws / 2) / n;
+  const variance = (wins * (1 - mean) ** 2 + draws * (0.5 - mean) ** 2 + losses * mean ** 2) / n;
+  return { n, mean, variance };
+}
+
+/**
+ * Elo difference and its 95% error margin. Infinite when one side scored every point.
+ */
+export function eloDifference(score: MatchScore): { elo: number, margin: number } {
+  const { n, mean, variance } = scoreStats(score);
+  if (n === 0) return { elo: 0, margin: 0 };
+  const deviation = Math.sqrt(variance / n);
+  const clamp = (s: number) => Math.min(1, Math.max(0, s));
+  const low = eloFromScore(clamp(mean - Z_95 * deviation));
+  const high = eloFromScore(clamp(mean + Z_95 * deviation));
+  return { elo: eloFromScore(mean), margin: (high - low) / 2 };
+}
+
+/**
+ * Sequential probability ratio test of H0 (elo <= elo0) against H1 (elo >= elo1).
+ */
+export function sprt(score: MatchScore, { elo0, elo1, alpha, beta }: SprtSettings): SprtResult {
+  const { n, mean, variance } = scoreStats(score);
+  const s0 = scoreFromElo(elo0);
+  const s1 = scoreFromElo(elo1);
+  const llr = variance > 0 ? n * (s1 - s0) * (2 * mean - s0 - s1) / (2 * variance) : 0;
+  const lowerBound = Math.log(beta / (1 - alpha));
+  const upperBound = Math.log((1 - beta) / alpha);
+  const result = llr >= upperBound ? 'H1' : llr <= lowerBound ? 'H0' : null;
+  return { llr, lowerBound, upperBound, result };
+}
@@ -0,0 +1,92 @@
+import { describe, it, expect } from 'vitest';
+import { mkdtempSync, mkdirSync, rmSync, writeFileSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { OpeningBook, bookEntriesFromGames, buildBookFromFolder } from './opening-book';
+import { START_FEN, applyMoveToFen, fromUciMove, mirrorHorizontal, swapColors } from '../renderer/src/lib/xiangqi';
+import { createGameRecord } from '../renderer/src/lib/game';
+
+const AFTER_CANNON = applyMoveToFen(START_FEN, fromUciMove('h2e2'));
+
+const ENTRIES = [
+  { fen: START_FEN, move: 'h2e2', weight: 60 },
+  { fen: START_FEN, move: 'c3c4', weight: 30 },
+  { fen: START_FEN, move: 'h0g2', weight: 10 },
+  { fen: AFTER_CANNON, move: 'h9g7', weight: 5 }
+];
+
+describe('OpeningBook', () => {
+  const book = OpeningBook.fromBuffer(OpeningBook.build(ENTRIES));
+
+  it('should store 16-byte entries and look moves up by weight', () => {
+      expect(OpeningBook.build(ENTRIES).byteLength).toBe(16 * 4);
+      expect(book.lookup(START_FEN)).toEqual([
+        { move: 'h2e2', weight: 60 },
+        { move: 'c3c4', weight: 30 },
+        { move: 'h0g2', weight: 10 }
+      ]);
+      expect(book.lookup(AFTER_CANNON)).toEqual([{ move: 'h9g7', weight: 5 }]);
+      expect(book.lookup(applyMoveToFen(AFTER_CANNON, fromUciMove('h9g7')))).toEqual([]);
+  });
+
+  it('should find mirrored and colour-swapped positions with their moves mapped', () => {
+      const mirrored = mirrorHorizontal(AFTER_CANNON);
+      expect(book.lookup(mirrored)).toEqual([{ move: 'b9c7', weight: 5 }]);
+      // Red to move in the swapped position, playing Black's reply
+      expect(book.lookup(swapColors(AFTER_CANNON))).toEqual([{ move: 'b0c2', weight: 5 }]);
+  });
+
+  it('should pick moves in proportion to their weights', () => {
+      expect(book.pick(START_FEN, () => 0)).toBe('h2e2');
+      expect(book.pick(START_FEN, () => 0.59)).toBe('h2e2');
+      expect(book.pick(START_FEN, () => 0.6)).toBe('c3c4');
+      expect(book.pick(START_FEN, () => 0.95)).toBe('h0g2');
+      expect(book.pick('4k4/9/9/9/9/4P4/9/9/9/4K4 w - - 0 1')).toBeNull();
+  });
+
+  it('should merge equivalent entries and reject malformed files', () => {
+      const merged = OpeningBook.fromBuffer(OpeningBook.build([
+        { fen: START_FEN, move: 'h2e2', weight: 3 },
+        { fen: START_FEN, move: 'b2e2', weight: 4 },
+        { fen: mirrorHorizontal(START_FEN), move: 'h2e2', weight: 5 }
+      ]));
+      expect(merged.size).toBe(2);
+      expect(merged.lookup(START_FEN)).toEqual([{ move: 'h2e2', weight: 8 }, { move: 'b2e2', weight: 4 }]);
+      expect(() => OpeningBook.fromBuffer(new Uint8Array(10))).toThrow('Invalid opening book');
+  });
+});
+
+describe('Building a book from games', () => {
+  const game = (moves: string, result: '1-0' | '0-1' | '1/2-1/2') => createGameRecord(START_FEN, moves.split(' ').map(fromUciMove), {}, result);
+
+  it('should weigh the opening moves of each game by its result', () => {
+      const entries = bookEntriesFromGames([game('h2e2 h9g7 h0g2', '1-0'), game('h2e2 b9c7', '1/2-1/2')], 2);
+      expect(entries).toEqual([
+        { fen: START_FEN, move: 'h2e2', weight: 2 },
+        { fen: AFTER_CANNON, move: 'h9g7', weight: 0 },
+        { fen: START_FEN, move: 'h2e2', weight: 1 },
+        { fen: AFTER_CANNON, move: 'b9c7', weight: 1 }
+      ]);
+  });
+
+  it('should read the PGN games of a folder and its subfolders', () => {
+      const dir = mkdtempSync(join(tmpdir(), 'book-'));
+      try {
+        mkdirSync(join(dir, 'more'));
+        writeFileSync(join(dir, 'a.pgn'), '[Result "1-0"]\n\n1. H2-E2 H9-G7 1-0\n\n[Result "0-1"]\n\n1. C3-C4 0-1\n');
+        writeFileSync(join(dir, 'more', 'b.PGN'), '[Result "1/2-1/2"]\n\n1. H2-E2 B9-C7 1/2-1/2\n');
+        writeFileSync(join(dir, 'broken.pgn'), '1. E0-E2\n');
+        writeFileSync(join(dir, 'notes.txt'), '1. C3-C4\n');
+
+        const { data, games, skipped } = buildBookFromFolder(dir);
+        expect({ games, skipped }).toEqual({ games: 3, skipped: 1 });
+        const built = OpeningBook.fromBuffer(data);
+        // Moves of the losing side are kept at weight 0, which is never played
+        expect(built.lookup(START_FEN)).toEqual([{ move: 'h2e2', weight: 3 }]);
+        expect(built.lookup(AFTER_CANNON)).toEqual([{ move: 'b9c7', weight: 1 }]);
+        expect(() => buildBookFromFolder(join(dir, 'more', 'none'))).toThrow();
+      } finally {
+        rmSync(dir, { recursive: true, force: true });
+      }
+  });
+});
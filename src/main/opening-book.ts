@@ -0,0 +1,173 @@
+import { readFileSync, readdirSync } from 'fs';
+import { extname, join } from 'path';
+import { canonicalizeFen, hashFen, encodeMove, decodeMove, toUciMove, fromUciMove, transformUciMove, parseFen, isLegalMove } from '../renderer/src/lib/xiangqi';
+import { GameRecord, decodeGameText, getMainlinePositions } from '../renderer/src/lib/game';
+import { parsePgn, splitPgnGames } from '../renderer/src/lib/pgn';
+import { parseXqf } from '../renderer/src/lib/xqf';
+
+// Opening book in the Polyglot layout: 16-byte big-endian entries sorted by key
+//
+//   key (uint64) | move (uint16) | weight (uint16) | learn (uint32)
+//
+// Keys are our own Zobrist hashes (hashFen) of the canonical position (see
+// canonicalizeFen) and moves are encodeMove() numbers in canonical
+// orientation, so mirrored and colour-swapped positions share entries.
+// Books are built from collections of games (see buildBookFromFolder).
+
+const ENTRY_SIZE = 16;
+const BOOK_PLIES = 20; // Moves of each game taken into a built book
+
+export interface BookMove {
+  move: string; // UCI move in the looked-up position
+  weight: number;
+}
+
+export interface BookEntry {
+  fen: string;
+  move: string; // UCI move in that position
+  weight: number;
+}
+
+export class OpeningBook {
+  private constructor(private readonly view: DataView) {}
+
+  static fromBuffer(buffer: Uint8Array): OpeningBook {
+    if (buffer.byteLength % ENTRY_SIZE !== 0) {
+      throw new Error('开局库文件格式错误 (Invalid opening book file)');
+    }
+    return new OpeningBook(new DataView(buffer.buffer, buffer.byteOffset, buffer.byteLength));
+  }
+
+  static load(path: string): OpeningBook {
+    return OpeningBook.fromBuffer(new Uint8Array(readFileSync(path)));
+  }
+
+  /**
+   * Writes entries as a book file. Weights of the same move in equivalent
+   * positions are added up (capped at 65535).
+   */
+  static build(entries: BookEntry[]): Uint8Array {
+    const merged = new Map<string, { key: bigint, move: number, weight: number }>();
+    for (const entry of entries) {
+      const { fen, transform } = canonicalizeFen(entry.fen);
+      const key = hashFen(fen);
+      const move = encodeMove(fromUciMove(transformUciMove(entry.move, transform)));
+      const id = `${key}:${move}`;
+      const existing = merged.get(id);
+      if (existing) existing.weight = Math.min(0xffff, existing.weight + entry.weight);
+      else merged.set(id, { key, move, weight: Math.min(0xffff, entry.weight) });
+    }
+
+    const sorted = [...merged.values()].sort((a, b) => (a.key < b.key ? -1 : a.key > b.key ? 1 : b.weight - a.weight));
+    const buffer = new Uint8Array(sorted.length * ENTRY_SIZE);
+    const view = new DataView(buffer.buffer);
+    sorted.forEach((entry, i) => {
+      view.setBigUint64(i * ENTRY_SIZE, entry.key);
+      view.setUint16(i * ENTRY_SIZE + 8, entry.move);
+      view.setUint16(i * ENTRY_SIZE + 10, entry.weight);
+    });
+    return buffer;
+  }
+
+  get size(): number {
+    return this.view.byteLength / ENTRY_SIZE;
+  }
+
+  private keyAt(index: number): bigint {
+    return this.view.getBigUint64(index * ENTRY_SIZE);
+  }
+
+  /**
+   * Book moves for a position, highest weight first. Moves that are not legal
+   * in the position (hash collisions, corrupt files) are dropped.
+   */
+  lookup(fen: string): BookMove[] {
+    const { fen: canonical, transform } = canonicalizeFen(fen);
+    const key = hashFen(canonical);
+
+    // First entry with this key
+    let low = 0;
+    let high = this.size;
+    while (low < high) {
+      const mid = (low + high) >> 1;
+      if (this.keyAt(mid) < key) low = mid + 1;
+      else high = mid;
+    }
+
+    const { board, turn } = parseFen(fen);
+    const moves: BookMove[] = [];
+    for (let i = low; i < this.size && this.keyAt(i) === key; i++) {
+      const weight = this.view.getUint16(i * ENTRY_SIZE + 10);
+      const stored = decodeMove(this.view.getUint16(i * ENTRY_SIZE + 8));
+      const move = transformUciMove(toUciMove(stored.from, stored.to), transform);
+      const { from, to } = fromUciMove(move);
+      const piece = board[from.row][from.col];
+      if (weight === 0 || !piece || piece.color !== turn || !isLegalMove(board, { from, to })) continue;
+      moves.push({ move, weight });
+    }
+    return moves.sort((a, b) => b.weight - a.weight);
+  }
+
+  /**
+   * Picks a book move at random, in proportion to the weights. Null when the position is not in the book.
+   */
+  pick(fen: string, random: () => number = Math.random): string | null {
+    const moves = this.lookup(fen);
+    const total = moves.reduce((sum, m) => sum + m.weight, 0);
+    let target = random() * total;
+    for (const m of moves) {
+      target -= m.weight;
+      if (target < 0) return m.move;
+    }
+    return moves.length > 0 ? moves[moves.length - 1].move : null;
+  }
+}
+
+/**
+ * Book entries from the first `plies` moves of each game's main line. A move
+ * weighs 2 when its side went on to win, 0 when it lost and 1 otherwise.
+ */
+export function bookEntriesFromGames(records: GameRecord[], plies = BOOK_PLIES): BookEntry[] {
+  const entries: BookEntry[] = [];
+  for (const record of records) {
+    for (const { fen, move } of getMainlinePositions(record).slice(0, plies)) {
+      const winner = record.result === '1-0' ? 'w' : record.result === '0-1' ? 'b' : null;
+      const turn = parseFen(fen).turn;
+      entries.push({ fen, move: toUciMove(move.from, move.to), weight: winner === null ? 1 : winner === turn ? 2 : 0 });
+    }
+  }
+  return entries;
+}
+
+/**
+ * Builds a book from the PGN and XQF games in a folder and its subfolders.
+ * Games that cannot be read are skipped and counted.
+ */
+export function buildBookFromFolder(dir: string): { data: Uint8Array, games: number, skipped: number } {
+  const records: GameRecord[] = [];
+  let skipped = 0;
+  const read = (path: string, parse: () => GameRecord) => {
+    try {
+      records.push(parse());
+    } catch (e) {
+      console.warn(`Skipped a game in ${path}:`, e);
+      skipped++;
+    }
+  };
+  const visit = (folder: string) => {
+    for (const entry of readdirSync(folder, { withFileTypes: true })) {
+      const path = join(folder, entry.name);
+      const type = extname(entry.name).toLowerCase();
+      if (entry.isDirectory()) {
+        visit(path);
+      } else if (type === '.xqf') {
+        read(path, () => parseXqf(new Uint8Array(readFileSync(path))));
+      } else if (type === '.pgn') {
+        for (const text of splitPgnGames(decodeGameText(new Uint8Array(readFileSync(path))))) read(path, () => parsePgn(text));
+      }
+    }
+  };
+  visit(dir);
+  if (records.length === 0) throw new Error('文件夹中没有可读的棋谱 (No readable games in the folder)');
+  return { data: OpeningBook.build(bookEntriesFromGames(records)), games: records.length, skipped };
+}
@@ -0,0 +1,50 @@
+import { describe, it, expect } from 'vitest';
+import { UCIEngine } from './uci-engine';
+import { START_FEN } from '../renderer/src/lib/xiangqi';
+import { perftDivide, parsePerftOutput, comparePerftDivide } from '../renderer/src/lib/perft';
+
+// Optional cross-check of our move generator against Pikafish's `go perft`.
+// Runs only when PIKAFISH_PATH points at an engine binary:
+//   PIKAFISH_PATH=/path/to/pikafish npx vitest run src/main/perft-crosscheck.test.ts
+const ENGINE_PATH = process.env.PIKAFISH_PATH;
+
+const POSITIONS = [
+  { fen: START_FEN, depth: 3 },
+  { fen: 'r1ba1a3/4kn3/2n1b4/pNp1p1p1p/4c4/6P2/P1P2R2P/1CcC5/9/2BAKAB2 w - - 0 1', depth: 3 },
+  { fen: '1cbak4/9/n2a5/2p1p3p/5cp2/2n2N3/6PCP/3AB4/2C6/3A1KB2 w - - 0 1', depth: 3 }
+];
+
+function enginePerft(engine: UCIEngine, fen: string, depth: number): Promise<string> {
+  return new Promise((resolve) => {
+    const lines: string[] = [];
+    const onLine = (line: string) => {
+      lines.push(line);
+      if (line.startsWith('Nodes searched')) {
+        engine.off('line', onLine);
+        resolve(lines.join('\n'));
+      }
+    };
+    engine.on('line', onLine);
+    engine.send(`position fen ${fen}`);
+    engine.send(`go perft ${depth}`);
+  });
+}
+
+describe.skipIf(!ENGINE_PATH)('Perft cross-check against Pikafish', () => {
+  it('should match the engine move by move', async () => {
+    const engine = new UCIEngine(ENGINE_PATH!);
+    const ready = new Promise<void>((resolve) => engine.once('ready', () => resolve()));
+    engine.start();
+    await ready;
+
+    try {
+      for (const { fen, depth } of POSITIONS) {
+        const theirs = parsePerftOutput(await enginePerft(engine, fen, depth));
+        const ours = perftDivide(fen, depth);
+        expect(comparePerftDivide(ours, theirs.divide), fen).toEqual([]);
+      }
+    } finally {
+      engine.quit();
+    }
+  }, 60000);
+});
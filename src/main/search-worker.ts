@@ -0,0 +1,46 @@
+import { parentPort } from 'worker_threads';
+import { Position } from '../renderer/src/lib/xiangqi';
+import { Searcher, SearchLine } from './search';
+
+// Runs the built-in engine's searches off the main process thread, so a deep
+// iteration freezes neither the window nor IPC. The engine stops a search by
+// setting the shared `stop` flag, which the searcher polls with its deadline.
+
+export interface SearchJob {
+  fen: string;
+  history: bigint[]; // Hashes of the game positions before `fen`
+  depth: number;
+  deadline?: number; // Date.now() value
+  multiPv: number;
+  infinite: boolean;
+  stop: SharedArrayBuffer; // One Int32, non-zero once stopped
+}
+
+export type SearchMessage =
+  | { type: 'iteration', depth: number, lines: SearchLine[], nodes: number }
+  | { type: 'done' };
+
+function search(job: SearchJob, post: (message: SearchMessage) => void): void {
+  const stop = new Int32Array(job.stop);
+  let depth = 1;
+  const searcher = new Searcher(Position.fromFen(job.fen), {
+    deadline: job.deadline,
+    multiPv: job.multiPv,
+    history: job.history,
+    // The first iteration always completes, so a stopped search still has a move
+    shouldStop: () => depth > 1 && Atomics.load(stop, 0) !== 0
+  });
+
+  let lines: SearchLine[] = [];
+  for (; depth <= job.depth; depth++) {
+    const result = searcher.searchRoot(depth, lines);
+    if (!result) break;
+    lines = result;
+    post({ type: 'iteration', depth, lines, nodes: searcher.nodes });
+    if (lines.length <= 1 && !job.infinite) break; // Forced or no move
+    if (Atomics.load(stop, 0) !== 0) break;
+  }
+  post({ type: 'done' });
+}
+
+parentPort?.on('message', (job: SearchJob) => search(job, message => parentPort!.postMessage(message)));
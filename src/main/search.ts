@@ -0,0 +1,200 @@
+import { Position, PieceColor, PieceType } from '../renderer/src/lib/xiangqi';
+
+// Small alpha-beta search for the built-in engine: iterative deepening with a
+// check extension, MVV-LVA capture ordering and a capture-only quiescence
+// search over a material + piece-square evaluation. It plays far below
+// Pikafish but is enough for an opponent and hints when no binary can run.
+
+export const MATE_SCORE = 30000;
+export const MATE_BOUND = MATE_SCORE - 1000; // Scores beyond this are mates
+const INFINITE_SCORE = 32000;
+const MAX_PLY = 64;
+
+const PIECE_VALUES: Record<PieceType, number> = { k: 0, a: 200, b: 200, n: 400, r: 900, c: 450, p: 100 };
+
+// Positional bonus for a piece, with `advance` counted from its own back rank (0-9)
+function positionalBonus(type: PieceType, advance: number, col: number): number {
+  const center = 4 - Math.abs(col - 4);
+  switch (type) {
+    case 'p':
+      if (advance < 5) return 0;
+      // Crossed Pawns gain value until they reach the last rank, where they are weak
+      return 70 + (advance < 9 ? (advance - 5) * 10 : -40) + center * 5;
+    case 'n':
+      return center * 8 + Math.min(advance, 6) * 6;
+    case 'c':
+      return col === 4 ? 20 : 0;
+    case 'r':
+      return advance >= 5 ? 20 : 0;
+    default:
+      return 0;
+  }
+}
+
+/**
+ * Static evaluation in centipawns from the side to move's point of view.
+ */
+export function evaluate(position: Position): number {
+  let score = 0;
+  for (const color of ['w', 'b'] as PieceColor[]) {
+    const sign = color === position.turn ? 1 : -1;
+    for (const sq of position.pieceSquares(color)) {
+      const type = position.typeAt(sq)!;
+      const row = Math.floor(sq / 9);
+      const advance = color === 'w' ? 9 - row : row;
+      score += sign * (PIECE_VALUES[type] + positionalBonus(type, advance, sq % 9));
+    }
+  }
+  return score;
+}
+
+export interface SearchLine {
+  move: number; // Encoded root move (see encodeMove)
+  score: number;
+  pv: number[];
+}
+
+export interface SearchOptions {
+  deadline?: number; // Date.now() value at which to abort
+  multiPv?: number;
+  history?: bigint[]; // Hashes of earlier game positions, scored as draws when repeated
+  shouldStop?: () => boolean; // Polled with the deadline, e.g. for `stop` from another thread
+}
+
+export class Searcher {
+  nodes = 0;
+  stopped = false;
+  private readonly deadline: number;
+  private readonly shouldStop: () => boolean;
+  private readonly multiPv: number;
+  private readonly gameHashes: Set<bigint>;
+  private readonly path: bigint[] = [];
+
+  constructor(private readonly position: Position, options: SearchOptions = {}) {
+    this.deadline = options.deadline ?? Infinity;
+    this.shouldStop = options.shouldStop ?? (() => false);
+    this.multiPv = Math.max(1, options.multiPv ?? 1);
+    this.gameHashes = new Set(options.history ?? []);
+  }
+
+  /**
+   * Searches every root move to `depth`, trying the previous iteration's order
+   * first. Returns the lines sorted best first (only the first `multiPv`
+   * scores are exact), or null when the search was aborted.
+   */
+  searchRoot(depth: number, previous: SearchLine[] = []): SearchLine[] | null {
+    const position = this.position;
+    const order = previous.map(line => line.move);
+    const rank = (move: number) => {
+      const index = order.indexOf(move);
+      return index < 0 ? order.length : index;
+    };
+    const moves = this.orderMoves(position.generateLegalMoves())
+      .sort((a, b) => rank(a) - rank(b));
+
+    const lines: SearchLine[] = [];
+    this.path.push(position.hash);
+    for (const move of moves) {
+      // Only the multiPv best moves need exact scores
+      const alpha = lines.length >= this.multiPv ? lines[this.multiPv - 1].score : -INFINITE_SCORE;
+      const pv: number[] = [];
+      position.makeMove(move);
+      this.path.push(position.hash);
+      const score = -this.alphaBeta(depth - 1, 1, -INFINITE_SCORE, -alpha, pv, position.isInCheck(position.turn));
+      this.path.pop();
+      position.unmakeMove();
+      if (this.stopped) break;
+
+      lines.push({ move, score, pv: [move, ...pv] });
+      lines.sort((a, b) => b.score - a.score);
+    }
+    this.path.pop();
+    return this.stopped ? null : lines;
+  }
+
+  private checkTime(): boolean {
+    if ((++this.nodes & 1023) === 0 && (Date.now() >= this.deadline || this.shouldStop())) this.stopped = true;
+    return this.stopped;
+  }
+
+  private isRepetition(): boolean {
+    const hash = this.position.hash;
+    return this.path.lastIndexOf(hash, this.path.length - 2) >= 0 || this.gameHashes.has(hash);
+  }
+
+  private alphaBeta(depth: number, ply: number, alpha: number, beta: number, pv: number[], inCheck: boolean): number {
+    if (this.checkTime()) return 0;
+    if (this.isRepetition()) return 0;
+    if (ply >= MAX_PLY) return evaluate(this.position);
+    if (inCheck) depth++;
+    if (depth <= 0) return this.quiesce(ply, alpha, beta);
+
+    const position = this.position;
+    const color = position.turn;
+    const childPv: number[] = [];
+    let legal = 0;
+    for (const move of this.orderMoves(position.generatePseudoMoves())) {
+      position.makeMove(move);
+      if (position.isInCheck(color)) {
+        position.unmakeMove();
+        continue;
+      }
+      legal++;
+      childPv.length = 0;
+      this.path.push(position.hash);
+      const score = -this.alphaBeta(depth - 1, ply + 1, -beta, -alpha, childPv, position.isInCheck(position.turn));
+      this.path.pop();
+      position.unmakeMove();
+      if (this.stopped) return 0;
+
+      if (score > alpha) {
+        alpha = score;
+        pv.length = 0;
+        pv.push(move, ...childPv);
+        if (alpha >= beta) break;
+      }
+    }
+    // No stalemate in xiangqi: a side without legal moves has lost
+    if (legal === 0) return -MATE_SCORE + ply;
+    return alpha;
+  }
+
+  private quiesce(ply: number, alpha: number, beta: number): number {
+    if (this.checkTime()) return 0;
+    const position = this.position;
+    const standPat = evaluate(position);
+    if (standPat >= beta || ply >= MAX_PLY) return standPat;
+    if (standPat > alpha) alpha = standPat;
+
+    const color = position.turn;
+    const captures = position.generatePseudoMoves().filter(move => position.typeAt(move % 90) !== null);
+    for (const move of this.orderMoves(captures)) {
+      position.makeMove(move);
+      if (position.isInCheck(color)) {
+        position.unmakeMove();
+        continue;
+      }
+      const score = -this.quiesce(ply + 1, -beta, -alpha);
+      position.unmakeMove();
+      if (this.stopped) return 0;
+      if (score > alpha) {
+        alpha = score;
+        if (alpha >= beta) break;
+      }
+    }
+    return alpha;
+  }
+
+  // Captures first, most valuable victim then least valuable attacker
+  private orderMoves(moves: number[]): number[] {
+    const position = this.position;
+    const score = (move: number) => {
+      const victim = position.typeAt(move % 90);
+      if (!victim) return 0;
+      return PIECE_VALUES[victim] * 10 + 1000 - PIECE_VALUES[position.typeAt(Math.floor(move / 90))!];
+    };
+    return moves.map(move => ({ move, score: score(move) }))
+      .sort((a, b) => b.score - a.score)
+      .map(entry => entry.move);
+  }
+}
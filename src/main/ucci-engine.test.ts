@@ -0,0 +1,102 @@
+import { describe, it, expect, vi, afterEach } from 'vitest';
+import { UCIEngine } from './uci-engine';
+import { UCCIEngine, toUcciGo, parsePophash } from './ucci-engine';
+
+describe('toUcciGo', () => {
+  it('should translate UCI limits to a single UCCI limit', () => {
+    expect(toUcciGo(['depth', '12'], 'w', false)).toBe('go depth 12');
+    expect(toUcciGo(['infinite'], 'w', false)).toBe('go depth infinite');
+    expect(toUcciGo(['movetime', '2500'], 'w', false)).toBe('go time 3 movestogo 1');
+    expect(toUcciGo(['movetime', '2500'], 'w', true)).toBe('go time 2500 movestogo 1');
+  });
+
+  it('should give the clock of the side to move as its own time', () => {
+    const args = ['wtime', '60000', 'btime', '30000', 'winc', '2000', 'binc', '1000'];
+    expect(toUcciGo(args, 'w', true)).toBe('go time 60000 increment 2000 opptime 30000 oppincrement 1000');
+    expect(toUcciGo(args, 'b', false)).toBe('go time 30 increment 1 opptime 60 oppincrement 2');
+  });
+});
+
+describe('UCCIEngine', () => {
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  // Commands as they reach the engine process
+  const capture = () => {
+    const sent: string[] = [];
+    vi.spyOn(UCIEngine.prototype, 'send').mockImplementation((command: string) => { sent.push(command); });
+    return sent;
+  };
+  const receive = (engine: UCCIEngine, ...lines: string[]) => lines.forEach(line => (engine as any).parseLine(line));
+
+  it('should translate the handshake and options to UCI', () => {
+    const sent = capture();
+    const engine = new UCCIEngine('eleeye.exe');
+    const ready = vi.fn();
+    engine.on('ready', ready);
+
+    engine.send('uci');
+    receive(engine,
+      'id name ElephantEye 3.3',
+      'option usemillisec type check default false',
+      'option hashsize type spin min 16 max 1024 default 16',
+      'ucciok'
+    );
+    expect(engine.name).toBe('ElephantEye 3.3');
+    expect(engine.options.map(o => o.name)).toEqual(['usemillisec', 'hashsize']);
+    expect(ready).toHaveBeenCalled();
+
+    engine.send('setoption name hashsize value 64');
+    expect(sent).toEqual(['ucci', 'setoption usemillisec true', 'setoption hashsize 64']);
+  });
+
+  it('should send bans after the position and translate search output', () => {
+    const sent = capture();
+    const engine = new UCCIEngine('eleeye.exe');
+    const infos: any[] = [];
+    engine.on('info', info => infos.push(info));
+    const bestmove = vi.fn();
+    engine.on('bestmove', bestmove);
+
+    engine.banMoves(['h2e2']);
+    engine.send('position fen rnbakabnr/9/1c5c1/p1p1p1p1p/9/9/P1P1P1P1P/1C5C1/9/RNBAKABNR w - - 0 1 moves b2e2');
+    engine.send('go btime 10000 wtime 20000');
+    engine.send('position startpos');
+    expect(sent.slice(1)).toEqual(['banmoves h2e2', 'go time 10 opptime 20', 'position startpos']);
+
+    receive(engine, 'info depth 6 score -35 pv h9g7 h0g2', 'nobestmove');
+    expect(infos).toEqual([{ depth: 6, scoreType: 'cp', scoreValue: -35, pv: 'h9g7 h0g2' }]);
+    expect(bestmove).toHaveBeenCalledWith('(none)', undefined);
+  });
+
+  it('should answer probes from pophash', async () => {
+    const sent = capture();
+    const engine = new UCCIEngine('eleeye.exe');
+    const result = engine.probe('4k4/9/9/9/9/9/9/9/9/4K4 w - - 0 1', ['e0d0']);
+    receive(engine, 'pophash bestmove e9f9 lowerbound -12 depth 9');
+    await expect(result).resolves.toEqual({ bestmove: 'e9f9', lowerbound: { value: -12, depth: 9 } });
+    expect(sent).toEqual(['probe fen 4k4/9/9/9/9/9/9/9/9/4K4 w - - 0 1 moves e0d0']);
+    expect(parsePophash([])).toEqual({});
+  });
+
+  it('should settle probes the engine never answers', async () => {
+    capture();
+    vi.useFakeTimers();
+    try {
+      const engine = new UCCIEngine('eleeye.exe');
+      const listeners = engine.listenerCount('crashed'); // The analysis queue's
+      const unanswered = engine.probe('4k4/9/9/9/9/9/9/9/9/4K4 w - - 0 1');
+      vi.advanceTimersByTime(5000);
+      await expect(unanswered).resolves.toEqual({});
+
+      const crashed = engine.probe('4k4/9/9/9/9/9/9/9/9/4K4 w - - 0 1');
+      engine.emit('crashed', 1);
+      await expect(crashed).resolves.toEqual({});
+      expect(engine.listenerCount('probe')).toBe(0);
+      expect(engine.listenerCount('crashed')).toBe(listeners);
+    } finally {
+      vi.useRealTimers();
+    }
+  });
+});
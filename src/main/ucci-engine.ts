@@ -0,0 +1,179 @@
+import { UCIEngine } from './uci-engine';
+import { toUciPositionCommand } from '../renderer/src/lib/xiangqi';
+
+// Adapter for engines speaking UCCI (ElephantEye, Cyclone and other Chinese
+// engines). It takes the same UCI commands through send() and emits the same
+// events as UCIEngine, translating in both directions:
+//
+//   uci                         -> ucci
+//   setoption name X value Y    -> setoption X Y
+//   go depth/movetime/wtime...  -> go depth | nodes | time ... (see toUcciGo)
+//   ucciok                      -> 'ready'
+//   option X type ...           -> option name X type ...
+//   info ... score 30           -> info ... score cp 30
+//   nobestmove                  -> bestmove (none)
+//
+// Moves and FENs are written the same way in both protocols.
+
+export interface ProbeResult {
+  bestmove?: string;
+  lowerbound?: { value: number, depth: number };
+  upperbound?: { value: number, depth: number };
+}
+
+/**
+ * Translates the arguments of a UCI `go` to UCCI. UCCI takes one limit: an
+ * infinite search, a depth, a node count or a clock, in that order of
+ * preference. A fixed move time is given as a clock for one move.
+ */
+export function toUcciGo(args: string[], turn: 'w' | 'b', millisec: boolean): string {
+  const value = (name: string) => {
+    const index = args.indexOf(name);
+    return index >= 0 ? parseInt(args[index + 1]) : undefined;
+  };
+  // Seconds unless the engine was switched to milliseconds
+  const time = (ms: number) => String(millisec ? ms : Math.max(1, Math.round(ms / 1000)));
+  const [own, opp] = turn === 'w' ? ['w', 'b'] : ['b', 'w'];
+
+  const parts = ['go'];
+  if (args.includes('ponder')) parts.push('ponder');
+  const depth = value('depth');
+  const nodes = value('nodes');
+  const movetime = value('movetime');
+  const clock = value(`${own}time`);
+  if (args.includes('infinite')) {
+    parts.push('depth', 'infinite');
+  } else if (depth !== undefined) {
+    parts.push('depth', String(depth));
+  } else if (nodes !== undefined) {
+    parts.push('nodes', String(nodes));
+  } else if (movetime !== undefined) {
+    parts.push('time', time(movetime), 'movestogo', '1');
+  } else if (clock !== undefined) {
+    parts.push('time', time(clock));
+    const increment = value(`${own}inc`);
+    const oppClock = value(`${opp}time`);
+    const oppIncrement = value(`${opp}inc`);
+    if (increment) parts.push('increment', time(increment));
+    if (oppClock !== undefined) parts.push('opptime', time(oppClock));
+    if (oppIncrement) parts.push('oppincrement', time(oppIncrement));
+  } else {
+    parts.push('depth', 'infinite');
+  }
+  return parts.join(' ');
+}
+
+/**
+ * Parses the tokens of a `pophash` line (without the leading `pophash`).
+ */
+export function parsePophash(parts: string[]): ProbeResult {
+  const result: ProbeResult = {};
+  for (let i = 0; i < parts.length; i++) {
+    if (parts[i] === 'bestmove') {
+      result.bestmove = parts[++i];
+    } else if ((parts[i] === 'lowerbound' || parts[i] === 'upperbound') && parts[i + 2] === 'depth') {
+      result[parts[i] as 'lowerbound' | 'upperbound'] = { value: parseInt(parts[i + 1]), depth: parseInt(parts[i + 3]) };
+      i += 3;
+    }
+  }
+  return result;
+}
+
+const PROBE_TIMEOUT = 5000; // Milliseconds to answer `probe`; engines without it never do
+
+export class UCCIEngine extends UCIEngine {
+  private millisec = false; // Times in milliseconds (`usemillisec`) rather than seconds
+  private turn: 'w' | 'b' = 'w'; // Side to move in the last `position`, for the clocks of `go`
+  private bannedMoves: string[] = [];
+
+  public send(command: string): void {
+    const parts = command.trim().split(/\s+/);
+    switch (parts[0]) {
+      case 'uci':
+        this.millisec = false;
+        super.send('ucci');
+        break;
+      case 'setoption': {
+        // setoption name <name> [value <value>]
+        const match = command.match(/^setoption\s+name\s+(.+?)(?:\s+value\s+(.*))?$/i);
+        if (match) super.send(match[2] !== undefined ? `setoption ${match[1]} ${match[2]}` : `setoption ${match[1]}`);
+        break;
+      }
+      case 'ucinewgame':
+        break; // No UCCI counterpart
+      case 'position': {
+        const fenIndex = parts.indexOf('fen');
+        const movesIndex = parts.indexOf('moves');
+        const startTurn = fenIndex >= 0 && parts[fenIndex + 2] === 'b' ? 'b' : 'w';
+        const moveCount = movesIndex >= 0 ? parts.length - movesIndex - 1 : 0;
+        this.turn = moveCount % 2 === 0 ? startTurn : startTurn === 'w' ? 'b' : 'w';
+        super.send(command);
+        // Bans only hold for the position they follow
+        if (this.bannedMoves.length > 0) super.send(`banmoves ${this.bannedMoves.join(' ')}`);
+        this.bannedMoves = [];
+        break;
+      }
+      case 'go':
+        super.send(toUcciGo(parts.slice(1), this.turn, this.millisec));
+        break;
+      default:
+        super.send(command);
+    }
+  }
+
+  /**
+   * Forbids moves in the next search (e.g. perpetual checks), sent with the next `position`.
+   */
+  public banMoves(moves: string[]): void {
+    this.bannedMoves = moves;
+  }
+
+  /**
+   * Reads the engine's hash table entry for a position. Settles with no entry
+   * if the engine does not answer or goes down first.
+   */
+  public probe(fen: string, moves: string[] = []): Promise<ProbeResult> {
+    return new Promise(resolve => {
+      const settle = (result: ProbeResult) => {
+        clearTimeout(timer);
+        this.off('probe', settle);
+        for (const event of ['crashed', 'failed', 'quit']) this.off(event, gone);
+        resolve(result);
+      };
+      const gone = () => settle({});
+      const timer = setTimeout(gone, PROBE_TIMEOUT);
+      this.on('probe', settle);
+      for (const event of ['crashed', 'failed', 'quit']) this.on(event, gone);
+      super.send(toUciPositionCommand(fen, moves).replace(/^position/, 'probe'));
+    });
+  }
+
+  protected parseLine(line: string): void {
+    const parts = line.split(' ');
+    switch (parts[0]) {
+      case 'ucciok':
+        if (this.options.some(option => option.name === 'usemillisec')) {
+          super.send('setoption usemillisec true');
+          this.millisec = true;
+        }
+        super.parseLine('uciok');
+        break;
+      case 'option':
+        super.parseLine(parts[1] === 'name' ? line : `option name ${parts.slice(1).join(' ')}`);
+        break;
+      case 'info':
+        super.parseLine(line.replace(/ score (-?\d+)/, ' score cp $1'));
+        break;
+      case 'nobestmove':
+        super.parseLine('bestmove (none)');
+        break;
+      case 'pophash':
+        this.emit('probe', parsePophash(parts.slice(1)));
+        break;
+      case 'bye':
+        break;
+      default:
+        super.parseLine(line);
+    }
+  }
+}
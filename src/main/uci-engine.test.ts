@@ -1,5 +1,5 @@
 import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
-import { UCIEngine } from './uci-engine';
+import { UCIEngine, parseInfo, parseOption } from './uci-engine';
 import { join } from 'path';
 import { existsSync } from 'fs';
 
@@ -237,3 +237,57 @@ describe('UCIEngine (Integration)', () => {
   });
 });
 
+describe('UCIEngine (handshake timeout)', () => {
+  it('should give up on a process that never answers uci', async () => {
+    vi.useFakeTimers();
+    // Node reading a script from stdin stays silent until stdin closes
+    const engine = new UCIEngine(process.execPath);
+    const failed = new Promise<void>((resolve) => engine.once('failed', () => resolve()));
+    engine.start();
+    vi.advanceTimersByTime(10000);
+    vi.useRealTimers();
+    await expect(failed).resolves.toBeUndefined();
+    expect((engine as any).process).toBeNull();
+  });
+});
+
+describe('parseInfo', () => {
+  const parse = (line: string) => parseInfo(line.split(' ').slice(1));
+
+  it('should parse every standard field', () => {
+    expect(parse('info depth 18 seldepth 24 multipv 2 score cp -35 wdl 120 700 180 nodes 123456 nps 987654 hashfull 312 tbhits 0 time 125 pv h2e2 h9g7 h0g2')).toEqual({
+      depth: 18, seldepth: 24, multipv: 2, scoreType: 'cp', scoreValue: -35,
+      wdl: { win: 120, draw: 700, loss: 180 },
+      nodes: 123456, nps: 987654, hashfull: 312, tbhits: 0, time: 125,
+      pv: 'h2e2 h9g7 h0g2'
+    });
+    expect(parse('info depth 12 currmove b0c2 currmovenumber 7')).toEqual({ depth: 12, currmove: 'b0c2', currmovenumber: 7 });
+    expect(parse('info string NNUE evaluation enabled')).toEqual({ string: 'NNUE evaluation enabled' });
+  });
+
+  it('should flag bound scores and read mate scores', () => {
+    expect(parse('info depth 20 score cp 48 lowerbound nodes 10 pv h2e2')).toMatchObject({ scoreValue: 48, scoreBound: 'lower', nodes: 10 });
+    expect(parse('info depth 20 score cp 12 upperbound')).toMatchObject({ scoreBound: 'upper' });
+    expect(parse('info depth 9 score mate -3 pv e0e1')).toEqual({ depth: 9, scoreType: 'mate', scoreValue: -3, pv: 'e0e1' });
+  });
+});
+
+describe('parseOption', () => {
+  const parse = (line: string) => parseOption(line.split(' ').slice(1));
+
+  it('should parse each option type with defaults and bounds', () => {
+    expect(parse('option name Hash type spin default 16 min 1 max 33554432')).toEqual({ name: 'Hash', type: 'spin', default: 16, min: 1, max: 33554432 });
+    expect(parse('option name UCI_ShowWDL type check default false')).toEqual({ name: 'UCI_ShowWDL', type: 'check', default: false });
+    expect(parse('option name Clear Hash type button')).toEqual({ name: 'Clear Hash', type: 'button' });
+    expect(parse('option name EvalFile type string default pikafish.nnue')).toEqual({ name: 'EvalFile', type: 'string', default: 'pikafish.nnue' });
+    expect(parse('option name Debug Log File type string default <empty>')).toEqual({ name: 'Debug Log File', type: 'string', default: '' });
+  });
+
+  it('should collect combo values and reject unknown types', () => {
+    expect(parse('option name Style type combo default Normal var Solid var Normal var Risky')).toEqual({
+      name: 'Style', type: 'combo', default: 'Normal', vars: ['Solid', 'Normal', 'Risky']
+    });
+    expect(parse('option name Foo type slider default 1')).toBeNull();
+    expect(parse('option type spin default 1')).toBeNull();
+  });
+});
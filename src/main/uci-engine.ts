@@ -1,19 +1,106 @@
 import { spawn, ChildProcessWithoutNullStreams } from 'child_process';
 import { EventEmitter } from 'events';
+import { EngineInfo, EngineOption, EngineOptionType, AnalysisRequest, AnalysisResult } from '../shared/engine';
+import { AnalysisQueue } from './analysis-queue';
+
+const INFO_NUMBER_FIELDS = ['depth', 'seldepth', 'multipv', 'nodes', 'nps', 'time', 'hashfull', 'tbhits', 'currmovenumber'] as const;
+
+/**
+ * Parses the tokens of an `info` line (without the leading `info`).
+ */
+export function parseInfo(parts: string[]): EngineInfo {
+  const info: EngineInfo = {};
+  for (let i = 0; i < parts.length; i++) {
+    const key = parts[i];
+    const value = parts[i + 1];
+
+    if ((INFO_NUMBER_FIELDS as readonly string[]).includes(key)) {
+      info[key as typeof INFO_NUMBER_FIELDS[number]] = parseInt(value);
+      i++;
+    } else if (key === 'score') {
+      // score cp <x> | mate <y> [lowerbound | upperbound]
+      info.scoreType = value === 'mate' ? 'mate' : 'cp';
+      info.scoreValue = parseInt(parts[i + 2]);
+      i += 2;
+      if (parts[i + 1] === 'lowerbound' || parts[i + 1] === 'upperbound') {
+        info.scoreBound = parts[i + 1] === 'lowerbound' ? 'lower' : 'upper';
+        i++;
+      }
+    } else if (key === 'wdl') {
+      info.wdl = { win: parseInt(parts[i + 1]), draw: parseInt(parts[i + 2]), loss: parseInt(parts[i + 3]) };
+      i += 3;
+    } else if (key === 'currmove') {
+      info.currmove = value;
+      i++;
+    } else if (key === 'pv') {
+      info.pv = parts.slice(i + 1).join(' ');
+      break; // pv runs to the end of the line
+    } else if (key === 'string') {
+      info.string = parts.slice(i + 1).join(' ');
+      break;
+    }
+  }
+  return info;
+}
+
+const OPTION_KEYWORDS = ['name', 'type', 'default', 'min', 'max', 'var'];
+
+/**
+ * Parses an `option` line (without the leading `option`). Names and string
+ * defaults may contain spaces, so each value runs up to the next keyword.
+ */
+export function parseOption(parts: string[]): EngineOption | null {
+  const fields: Record<string, string> = {};
+  const vars: string[] = [];
+  for (let i = 0; i < parts.length;) {
+    const key = parts[i];
+    let end = i + 1;
+    while (end < parts.length && !OPTION_KEYWORDS.includes(parts[end])) end++;
+    const value = parts.slice(i + 1, end).join(' ');
+    if (key === 'var') vars.push(value);
+    else if (OPTION_KEYWORDS.includes(key)) fields[key] = value;
+    i = end;
+  }
+
+  const type = fields.type as EngineOptionType;
+  if (!fields.name || !['spin', 'check', 'combo', 'string', 'button'].includes(type)) return null;
+  const option: EngineOption = { name: fields.name, type };
+  if (type === 'spin') {
+    option.default = parseInt(fields.default);
+    if (fields.min !== undefined) option.min = parseInt(fields.min);
+    if (fields.max !== undefined) option.max = parseInt(fields.max);
+  } else if (type === 'check') {
+    option.default = fields.default === 'true';
+  } else if (type !== 'button') {
+    option.default = fields.default === '<empty>' ? '' : fields.default ?? '';
+  }
+  if (type === 'combo') option.vars = vars;
+  return option;
+}
+
+const HANDSHAKE_TIMEOUT = 10000; // Milliseconds to answer `uci` before the engine is given up on
 
 export class UCIEngine extends EventEmitter {
   private process: ChildProcessWithoutNullStreams | null = null;
   private buffer: string = '';
   private isIntentionalExit: boolean = false;
   private restartTimer: NodeJS.Timeout | undefined;
-
-  constructor(private enginePath: string) {
+  private handshakeTimer: NodeJS.Timeout | undefined;
+  private handshakeDone = false; // Answered `uci` since the last start
+  // From the last `uci` handshake
+  public name = '';
+  public author = '';
+  public options: EngineOption[] = [];
+  private readonly analysis = new AnalysisQueue(this);
+
+  constructor(public readonly enginePath: string) {
     super();
   }
 
   public start(): void {
     if (this.process) return;
     this.isIntentionalExit = false;
+    this.handshakeDone = false;
 
     try {
       this.process = spawn(this.enginePath);
@@ -32,11 +119,20 @@ export class UCIEngine extends EventEmitter {
         console.error(`Engine Error: ${data}`);
       });
 
+      // Spawn errors (missing file, no permission) are followed by 'close'
+      this.process.on('error', (error) => {
+        console.error('Failed to start engine:', error);
+      });
+
       this.process.on('close', (code) => {
         console.log(`Engine exited with code ${code}`);
         this.process = null;
+        clearTimeout(this.handshakeTimer);
         
-        if (!this.isIntentionalExit) {
+        if (!this.isIntentionalExit && !this.handshakeDone) {
+          // Never got going (e.g. unsupported CPU instructions): restarting would not help
+          this.emit('failed', code);
+        } else if (!this.isIntentionalExit) {
           console.warn('Engine exited unexpectedly. Restarting in 3 seconds...');
           this.emit('crashed', code);
           this.restartTimer = setTimeout(() => {
@@ -48,6 +144,12 @@ export class UCIEngine extends EventEmitter {
       });
 
       this.send('uci');
+      // A process that runs but never answers (e.g. not a UCI engine) fails like one that exits
+      const child = this.process;
+      this.handshakeTimer = setTimeout(() => {
+        console.warn(`Engine did not answer uci within ${HANDSHAKE_TIMEOUT} ms`);
+        child.kill();
+      }, HANDSHAKE_TIMEOUT);
     } catch (error) {
       console.error('Failed to start engine:', error);
       this.emit('error', error);
@@ -61,12 +163,24 @@ export class UCIEngine extends EventEmitter {
     }
   }
 
+  /**
+   * Analyses a position, superseding earlier requests (see AnalysisQueue).
+   */
+  public analyze(request: AnalysisRequest, onInfo?: (info: EngineInfo) => void): Promise<AnalysisResult> {
+    return this.analysis.analyze(request, onInfo);
+  }
+
+  public cancelAnalysis(): void {
+    this.analysis.cancel();
+  }
+
   public quit(): void {
     this.isIntentionalExit = true;
     if (this.restartTimer) {
       clearTimeout(this.restartTimer);
       this.restartTimer = undefined;
     }
+    clearTimeout(this.handshakeTimer);
 
     if (this.process) {
       this.send('quit');
@@ -80,53 +194,43 @@ export class UCIEngine extends EventEmitter {
     }
   }
 
-  private parseLine(line: string): void {
+  protected parseLine(line: string): void {
     if (!line) return;
     // console.log(`< ${line}`); // Verbose logging
+    this.emit('line', line); // Raw output, e.g. for `go perft`
 
     const parts = line.split(' ');
     const command = parts[0];
 
     switch (command) {
       case 'uciok':
+        this.handshakeDone = true;
+        clearTimeout(this.handshakeTimer);
         this.emit('ready');
         break;
       case 'readyok':
         this.emit('readyok');
         break;
       case 'id':
-        // id name Pikafish...
+        // id name Pikafish... / id author ...; a new handshake starts a fresh option list
+        if (parts[1] === 'name') {
+          this.name = parts.slice(2).join(' ');
+          this.options = [];
+        } else if (parts[1] === 'author') {
+          this.author = parts.slice(2).join(' ');
+        }
         break;
-      case 'option':
-        // option name ...
+      case 'option': {
+        const option = parseOption(parts.slice(1));
+        if (option) this.options.push(option);
         break;
+      }
       case 'info':
-        this.emit('info', this.parseInfo(parts.slice(1)));
+        this.emit('info', parseInfo(parts.slice(1)));
         break;
       case 'bestmove':
         this.emit('bestmove', parts[1], parts[3]); // bestmove <move> [ponder <move>]
         break;
     }
   }
-
-  private parseInfo(parts: string[]): any {
-    const info: any = {};
-    for (let i = 0; i < parts.length; i++) {
-      const key = parts[i];
-      const value = parts[i + 1];
-      
-      if (key === 'depth') info.depth = parseInt(value);
-      if (key === 'multipv') info.multipv = parseInt(value);
-      if (key === 'score') {
-        info.scoreType = value; // cp or mate
-        info.scoreValue = parseInt(parts[i + 2]);
-        i += 2;
-      }
-      if (key === 'pv') {
-        info.pv = parts.slice(i + 1).join(' ');
-        break; // pv is usually the last part
-      }
-    }
-    return info;
-  }
 }
@@ -1,28 +1,63 @@
 import { contextBridge, ipcRenderer } from 'electron'
 import { electronAPI } from '@electron-toolkit/preload'
+import { EngineInfo, EngineDescription, EngineOptionValue, EngineProtocol, AnalysisRequest, AnalysisResult } from '../shared/engine'
+import { MatchReport, MatchSettings } from '../shared/match'
+
+let nextAnalysisId = 1;
 
 // Custom APIs for renderer
 const api = {
   startEngine: () => ipcRenderer.invoke('engine:start'),
   stopEngine: () => ipcRenderer.invoke('engine:stop'),
-  sendToEngine: (command: string) => ipcRenderer.invoke('engine:send', command),
-  onEngineInfo: (callback: (info: any) => void) => {
-    const subscription = (_: any, info: any) => callback(info);
+  // Only the infos of this request reach onInfo
+  analyze: (request: AnalysisRequest, onInfo?: (info: EngineInfo) => void): Promise<AnalysisResult> => {
+    const id = nextAnalysisId++;
+    const subscription = (_: any, infoId: number, info: EngineInfo) => {
+      if (infoId === id) onInfo?.(info);
+    };
     ipcRenderer.on('engine:info', subscription);
-    return () => ipcRenderer.removeListener('engine:info', subscription);
-  },
-  onBestMove: (callback: (move: string) => void) => {
-    const subscription = (_: any, move: string) => callback(move);
-    ipcRenderer.on('engine:bestmove', subscription);
-    return () => ipcRenderer.removeListener('engine:bestmove', subscription);
+    return ipcRenderer.invoke('engine:analyze', id, request)
+      .finally(() => ipcRenderer.removeListener('engine:info', subscription));
   },
+  cancelAnalysis: () => ipcRenderer.invoke('engine:cancel'),
   onEngineStatus: (callback: (status: string) => void) => {
     const subscription = (_: any, status: string) => callback(status);
     ipcRenderer.on('engine:status', subscription);
     return () => ipcRenderer.removeListener('engine:status', subscription);
   },
+  describeEngine: () => ipcRenderer.invoke('engine:describe'),
+  chooseEnginePath: () => ipcRenderer.invoke('engine:choosePath'),
+  resetEnginePath: () => ipcRenderer.invoke('engine:resetPath'),
+  getEngineProfiles: () => ipcRenderer.invoke('engine:profiles'),
+  selectEngineProfile: (name: string) => ipcRenderer.invoke('engine:selectProfile', name),
+  addEngineProfile: () => ipcRenderer.invoke('engine:addProfile'),
+  setEngineProtocol: (protocol: EngineProtocol) => ipcRenderer.invoke('engine:setProtocol', protocol),
+  removeEngineProfile: (name: string) => ipcRenderer.invoke('engine:removeProfile', name),
+  setEngineOption: (name: string, value?: EngineOptionValue) => ipcRenderer.invoke('engine:setOption', name, value),
+  onEngineOptions: (callback: (description: EngineDescription) => void) => {
+    const subscription = (_: any, description: EngineDescription) => callback(description);
+    ipcRenderer.on('engine:options', subscription);
+    return () => ipcRenderer.removeListener('engine:options', subscription);
+  },
+  startMatch: (settings: MatchSettings) => ipcRenderer.invoke('match:start', settings),
+  stopMatch: () => ipcRenderer.invoke('match:stop'),
+  onMatchProgress: (callback: (report: MatchReport) => void) => {
+    const subscription = (_: any, report: MatchReport) => callback(report);
+    ipcRenderer.on('match:progress', subscription);
+    return () => ipcRenderer.removeListener('match:progress', subscription);
+  },
   getScreenSources: () => ipcRenderer.invoke('screen:getSources'),
   predictBoard: (imageBase64: string) => ipcRenderer.invoke('vision:predict', imageBase64),
+  openGame: () => ipcRenderer.invoke('game:open'),
+  importGame: () => ipcRenderer.invoke('game:import'),
+  saveGame: (content: string, defaultName: string) => ipcRenderer.invoke('game:save', content, defaultName),
+  readClipboard: () => ipcRenderer.invoke('clipboard:readText'),
+  writeClipboard: (text: string) => ipcRenderer.invoke('clipboard:writeText', text),
+  getBookInfo: () => ipcRenderer.invoke('book:info'),
+  openBook: () => ipcRenderer.invoke('book:open'),
+  buildBook: () => ipcRenderer.invoke('book:build'),
+  lookupBook: (fen: string) => ipcRenderer.invoke('book:lookup', fen),
+  pickBookMove: (fen: string) => ipcRenderer.invoke('book:pick', fen),
 }
 
 // Use `contextBridge` APIs to expose Electron APIs to
@@ -2,56 +2,114 @@ import { useState, useEffect, useCallback, useRef, useMemo, SetStateAction } fro
 import { Board } from './components/Board'
 import { ScreenCapture } from './components/ScreenCapture'
 import { ChessTimer } from './components/ChessTimer'
-import { parseFen, generateFen, START_FEN, BoardState, PieceColor, PieceType, fromUciMove, getChineseMoveNotation, validateFen, validateMove } from './lib/xiangqi'
+import { EngineSettings } from './components/EngineSettings'
+import { MatchPanel } from './components/MatchPanel'
+import { parseFen, generateFen, START_FEN, BoardState, PieceColor, PieceType, fromUciMove, formatMove, NotationStyle, NOTATION_STYLE_NAMES, Move, validatePosition, validateMove, getLegalMovesFrom, getGameStatus, hashFen, updateZobristHash, applyMoveToFen, toUciMove, mirrorHorizontal, mirrorMove } from './lib/xiangqi'
+import { judgeRepetition, HistoryEntry, RuleSet, RULE_SET_NAMES } from './lib/rules'
+import { GameNode, GameRecord, GameResult, createGameRecord, decodeGameText } from './lib/game'
+import { parsePgn, writePgn } from './lib/pgn'
+import { parseXqf } from './lib/xqf'
+import { parseDhtmlXq, writeDhtmlXq } from './lib/dhtmlxq'
+import { classifyOpeningFamily } from './lib/ecco'
+import { EngineInfo, EngineDescription, EngineOptionValue, EngineProfiles } from '../../shared/engine'
 import { recognizeBoardViaApi } from './lib/vision'
 import { captureSource } from './lib/capture'
 
+// Opening tags describe a particular move list: a file's own ECCO code and our family
+const OPENING_TAGS = ['ECCO', 'Opening', 'ECCOFamily', 'OpeningFamily'];
+
+const withoutOpeningTags = (tags: Record<string, string>) =>
+  Object.fromEntries(Object.entries(tags).filter(([key]) => !OPENING_TAGS.includes(key)));
+
 function App(): JSX.Element {
   const [fen, setFen] = useState(START_FEN);
   const boardState = useMemo(() => parseFen(fen), [fen]);
+  const gameStatus = useMemo(() => getGameStatus(fen), [fen]);
+  // Every problem with the current position, highlighted on the board (e.g. after recognition)
+  const positionIssues = useMemo(() => validatePosition(fen), [fen]);
   const [selectedSquare, setSelectedSquare] = useState<{ row: number, col: number } | null>(null);
+  const legalTargets = useMemo(
+    () => selectedSquare ? getLegalMovesFrom(boardState.board, selectedSquare).map(m => m.to) : [],
+    [boardState, selectedSquare]
+  );
   const [lastMove, setLastMove] = useState<{ from: { row: number, col: number }, to: { row: number, col: number } } | null>(null);
-  const [moveHistory, setMoveHistory] = useState<string[]>([]);
+  // Moves with the board they were played on, so the list can be shown in any notation
+  const [moveHistory, setMoveHistory] = useState<Array<{ board: BoardState, move: Move }>>([]);
+  // Engine position base: the FEN the game (or current setup) started from plus the UCI moves since
+  const [startFen, setStartFen] = useState(START_FEN);
+  const [uciMoves, setUciMoves] = useState<string[]>([]);
   const [history, setHistory] = useState<Array<{
     fen: string,
+    hash: bigint,
+    startFen: string,
+    uciMoves: string[],
     lastMove: { from: { row: number, col: number }, to: { row: number, col: number } } | null
   }>>([]);
+  // Zobrist hash of the current position, updated incrementally on every move
+  const [positionHash, setPositionHash] = useState(() => hashFen(START_FEN));
+  const repetitionCount = useMemo(
+    () => history.filter(h => h.hash === positionHash).length + 1,
+    [history, positionHash]
+  );
   
   const [engineStatus, setEngineStatus] = useState<string>('Disconnected');
-  const [engineInfo, setEngineInfo] = useState<any>(null);
+  const [engineDescription, setEngineDescription] = useState<EngineDescription | null>(null);
+  const [showEngineSettings, setShowEngineSettings] = useState(false);
+  const [showMatch, setShowMatch] = useState(false);
+  const [engineProfiles, setEngineProfiles] = useState<EngineProfiles | null>(null);
+  const [engineInfo, setEngineInfo] = useState<Record<number, EngineInfo> | null>(null);
   const [isAiThinking, setIsAiThinking] = useState(false);
   const [gameOver, setGameOver] = useState<string | null>(null);
-  const [isCheckingRule, setIsCheckingRule] = useState(false);
   
   const [showCapture, setShowCapture] = useState(false);
   const [isRecognizing, setIsRecognizing] = useState(false);
 
   // Refs for state access in callbacks without triggering re-renders/re-binding
   const isAiThinkingRef = useRef(isAiThinking);
-  const isCheckingRuleRef = useRef(isCheckingRule);
   const gameOverRef = useRef(gameOver);
+  const fenRef = useRef(fen);
 
   useEffect(() => { isAiThinkingRef.current = isAiThinking; }, [isAiThinking]);
-  useEffect(() => { isCheckingRuleRef.current = isCheckingRule; }, [isCheckingRule]);
   useEffect(() => { gameOverRef.current = gameOver; }, [gameOver]);
+  useEffect(() => { fenRef.current = fen; }, [fen]);
+
+  // Engine requests are numbered; results and infos of superseded ones are dropped
+  const analysisTokenRef = useRef(0);
+  const cancelAnalysis = useCallback(() => {
+    analysisTokenRef.current++;
+    window.api.cancelAnalysis();
+  }, []);
 
   // User Preferences
   const [isRedAi, setIsRedAi] = useState(false);
   const [isBlackAi, setIsBlackAi] = useState(true); // Default: Human Red vs AI Black
   const [isFlipped, setIsFlipped] = useState(false);
   const [aiLimit, setAiLimit] = useState<{ type: 'time' | 'depth', value: number }>({ type: 'time', value: 3000 }); // Default 3s
+  const [ruleSet, setRuleSet] = useState<RuleSet>('asian');
+  const [notationStyle, setNotationStyle] = useState<NotationStyle>('chinese');
+  // Tags of the loaded game (players, event...), kept when it is saved again
+  const [gameTags, setGameTags] = useState<Record<string, string>>({});
+  // The loaded game as read, for its result, comments and variations
+  const [loadedGame, setLoadedGame] = useState<GameRecord | null>(null);
   
   // Correction Mode State
   const [lastRecognizedImage, setLastRecognizedImage] = useState<string | null>(null);
   const [lastSourceId, setLastSourceId] = useState<string | null>(null);
   const [isPanelVisible, setIsPanelVisible] = useState(true);
   const [showAiHints, setShowAiHints] = useState(true);
+  // Opening book: the AI plays from it, and its moves are listed with the hints
+  const [useBook, setUseBook] = useState(true);
+  const [bookName, setBookName] = useState<string | null>(null);
+  const [bookMoves, setBookMoves] = useState<Array<{ move: string, weight: number }>>([]);
 
   // Simulation Mode State
   const [isSimulationMode, setIsSimulationMode] = useState(false);
   const [simulationSnapshot, setSimulationSnapshot] = useState<{
       fen: string;
-      moveHistory: string[];
+      positionHash: bigint;
+      startFen: string;
+      uciMoves: string[];
+      moveHistory: Array<{ board: BoardState, move: Move }>;
       history: any[];
       lastMove: any;
       gameOver: string | null;
@@ -102,8 +160,12 @@ function App(): JSX.Element {
         // Note: generateFen requires the board array and the *next* turn.
         // But here we want to set the *current* state's turn.
         // generateFen(board, color) produces a FEN where it is `color`'s turn.
-        const newFen = generateFen(boardState.board, color);
+        const newFen = generateFen(boardState.board, color, boardState.halfmoveClock, boardState.fullmoveNumber);
         setFen(newFen);
+        setPositionHash(hashFen(newFen));
+        // The engine can no longer replay the moves onto this position, so it becomes the new base
+        setStartFen(newFen);
+        setUciMoves([]);
         // Also clear any move history/selection as the game state is being manually adjusted?
         // Maybe not necessary, but safe to clear selection.
         setSelectedSquare(null);
@@ -118,8 +180,6 @@ function App(): JSX.Element {
     window.api.startEngine().then((success: any) => {
       if (success) {
         setEngineStatus('Ready');
-        window.api.sendToEngine('uci');
-        setTimeout(() => window.api.sendToEngine('setoption name MultiPV value 3'), 500);
       } else {
         setEngineStatus('Failed to start (Check resources/bin/pikafish.exe)');
       }
@@ -129,59 +189,170 @@ function App(): JSX.Element {
   // Initialize Engine
   useEffect(() => {
     const cleanupStatus = window.api.onEngineStatus((status: SetStateAction<string>) => setEngineStatus(status));
-    const cleanupInfo = window.api.onEngineInfo((info: any) => {
-        setEngineInfo((prev: any) => {
-            const newInfo = prev ? {...prev} : {};
-            
-            if (info.multipv) {
-                newInfo[info.multipv] = { ...(newInfo[info.multipv] || {}), ...info };
-            } else {
-                // Fallback for engines not sending multipv or single pv mode
-                // Only update if we have meaningful info (like pv or score) or if it's the only info we have
-                // If it's a global update (e.g. depth only), we might want to skip or apply to primary
-                // But to be safe, let's merge into slot 1.
-                newInfo[1] = { ...(newInfo[1] || {}), ...info };
-            }
-            return newInfo;
-        });
-    });
-    
+    const cleanupOptions = window.api.onEngineOptions(setEngineDescription);
+    window.api.describeEngine().then(description => description && setEngineDescription(description));
+    window.api.getEngineProfiles().then(setEngineProfiles);
     startEngineService();
 
     return () => {
         cleanupStatus();
-        cleanupInfo();
+        cleanupOptions();
     };
   }, [startEngineService]);
 
+  const mergeEngineInfo = useCallback((info: EngineInfo) => {
+      setEngineInfo(prev => {
+          const newInfo = prev ? {...prev} : {};
+          // A new score replaces the bound flag of the previous one
+          const update = info.scoreType ? { ...info, scoreBound: info.scoreBound } : info;
+          
+          if (info.multipv) {
+              newInfo[info.multipv] = { ...(newInfo[info.multipv] || {}), ...update };
+          } else {
+              // Fallback for engines not sending multipv or single pv mode
+              // Only update if we have meaningful info (like pv or score) or if it's the only info we have
+              // If it's a global update (e.g. depth only), we might want to skip or apply to primary
+              // But to be safe, let's merge into slot 1.
+              newInfo[1] = { ...(newInfo[1] || {}), ...update };
+          }
+          return newInfo;
+      });
+  }, []);
+
+  const handleEngineOption = useCallback((name: string, value?: EngineOptionValue) => {
+    window.api.setEngineOption(name, value);
+    if (value === undefined) return;
+    setEngineDescription(prev => prev && { ...prev, values: { ...prev.values, [name]: value } });
+  }, []);
+
+  useEffect(() => {
+    window.api.getBookInfo().then(info => setBookName(info?.name ?? null));
+  }, []);
+
+  useEffect(() => {
+    if (!bookName) {
+      setBookMoves([]);
+      return;
+    }
+    let cancelled = false;
+    window.api.lookupBook(fen).then(moves => {
+      if (!cancelled) setBookMoves(moves);
+    });
+    return () => { cancelled = true; };
+  }, [fen, bookName]);
+
+  const handleOpenBook = async () => {
+    try {
+      const info = await window.api.openBook();
+      if (info) setBookName(info.name);
+    } catch (e: any) {
+      alert(`开局库载入失败 (Failed to load opening book): ${e.message ?? e}`);
+    }
+  };
+
+  const handleBuildBook = async () => {
+    try {
+      const info = await window.api.buildBook();
+      if (!info) return;
+      setBookName(info.name);
+      alert(`已从 ${info.games} 局棋谱生成开局库${info.skipped > 0 ? `，跳过 ${info.skipped} 局` : ''} (Built from ${info.games} games${info.skipped > 0 ? `, ${info.skipped} skipped` : ''})`);
+    } catch (e: any) {
+      alert(`开局库生成失败 (Failed to build opening book): ${e.message ?? e}`);
+    }
+  };
+
+  // Detect checkmate / stalemate locally so game over does not depend on the engine
+  useEffect(() => {
+    if (gameStatus.status === 'checkmate' || gameStatus.status === 'stalemate') {
+      const loser = gameStatus.turn === 'w' ? 'Red' : 'Black';
+      const isAiLoser = (gameStatus.turn === 'w' && isRedAi) || (gameStatus.turn === 'b' && isBlackAi);
+      const reason = gameStatus.status === 'checkmate' ? '绝杀 (Checkmate)' : '困毙 (Stalemate)';
+      setGameOver(`${loser}${isAiLoser ? ' (AI)' : ''} Lost! ${reason}`);
+    } else if (gameStatus.status === 'draw') {
+      setGameOver('Draw! 六十回合自然限着 (60-move rule)');
+    }
+  }, [gameStatus, isRedAi, isBlackAi]);
+
+  // Adjudicate repeated positions (long check / long chase)
+  const repetitionVerdict = useMemo(() => {
+    const entries: HistoryEntry[] = [];
+    for (let i = 0; i < history.length; i++) {
+      // The move played from history[i] is the lastMove stored with the following position
+      const move = i + 1 < history.length ? history[i + 1].lastMove : lastMove;
+      if (!move) return null;
+      entries.push({ fen: history[i].fen, move });
+    }
+    return judgeRepetition(entries, fen, ruleSet);
+  }, [history, lastMove, fen, ruleSet]);
+
+  useEffect(() => {
+    if (!repetitionVerdict) return;
+    if (repetitionVerdict.result === 'loss') {
+      const loser = repetitionVerdict.loser === 'w' ? 'Red' : 'Black';
+      setGameOver(`${loser} Lost! ${repetitionVerdict.reason}`);
+    } else {
+      setGameOver(`Draw! ${repetitionVerdict.reason}`);
+    }
+  }, [repetitionVerdict]);
+
   // Update internal state when FEN changes
   useEffect(() => {
     const isCurrentTurnAi = (boardState.turn === 'w' && isRedAi) || (boardState.turn === 'b' && isBlackAi);
+    const isFinished = !!gameOver || gameStatus.status === 'checkmate' || gameStatus.status === 'stalemate' || gameStatus.status === 'draw';
+
+    const limits = aiLimit.type === 'time' ? { movetime: aiLimit.value } : { depth: aiLimit.value };
+    const request = { fen: startFen, moves: uciMoves, limits };
 
     // If it's AI's turn
-    if (isCurrentTurnAi && engineStatus.toLowerCase() === 'ready' && !isAiThinking && !gameOver) {
+    if (isCurrentTurnAi && engineStatus.toLowerCase() === 'ready' && !isAiThinking && !isFinished) {
       setEngineInfo({}); // Clear previous info
-      setIsCheckingRule(false); // Reset checking rule flag
       setIsAiThinking(true);
-      window.api.sendToEngine(`position fen ${fen}`);
-      
-      const cmd = aiLimit.type === 'time' 
-          ? `go movetime ${aiLimit.value}` 
-          : `go depth ${aiLimit.value}`;
-      window.api.sendToEngine(cmd);
-    } else if (!isCurrentTurnAi && engineStatus.toLowerCase() === 'ready' && !gameOver) {
-      // Check if Human is checkmated or stalemated, and provide analysis
+      const token = ++analysisTokenRef.current;
+      const searchWithEngine = () => {
+        window.api.analyze(request, info => analysisTokenRef.current === token && mergeEngineInfo(info))
+          .then(result => {
+            if (analysisTokenRef.current !== token) return; // Superseded (e.g. Undo)
+            isAiThinkingRef.current = false;
+            setIsAiThinking(false);
+            // No move (game over) is detected locally from the position. A board
+            // replaced meanwhile (e.g. by recognition) is searched afresh instead.
+            if (!result.bestmove || fenRef.current !== fen) return;
+            const move = fromUciMove(result.bestmove);
+            applyMoveRef.current(move.from, move.to);
+          })
+          .catch(error => {
+            console.error('Engine analysis failed:', error);
+            if (analysisTokenRef.current !== token) return;
+            isAiThinkingRef.current = false;
+            setIsAiThinking(false);
+          });
+      };
+
+      if (useBook) {
+        // Known openings are played from the book straight away
+        window.api.pickBookMove(fen).then(bookMove => {
+          if (analysisTokenRef.current !== token) return; // Cancelled (e.g. Undo) while looking up
+          if (!bookMove) return searchWithEngine();
+          isAiThinkingRef.current = false;
+          setIsAiThinking(false);
+          if (fenRef.current !== fen) return;
+          const move = fromUciMove(bookMove);
+          applyMoveRef.current(move.from, move.to);
+        }).catch(error => {
+          console.error('Book lookup failed:', error);
+          if (analysisTokenRef.current === token) searchWithEngine();
+        });
+      } else {
+        searchWithEngine();
+      }
+    } else if (!isCurrentTurnAi && engineStatus.toLowerCase() === 'ready' && !isFinished) {
+      // Provide analysis (hints) for the Human side, using the configured limit
       setEngineInfo({}); // Clear previous info
-      setIsCheckingRule(true);
-      window.api.sendToEngine(`position fen ${fen}`);
-      
-      // Use configured limit for analysis/checking
-      const cmd = aiLimit.type === 'time' 
-          ? `go movetime ${aiLimit.value}` 
-          : `go depth ${aiLimit.value}`;
-      window.api.sendToEngine(cmd);
+      const token = ++analysisTokenRef.current;
+      window.api.analyze(request, info => analysisTokenRef.current === token && mergeEngineInfo(info))
+        .catch(error => console.error('Engine analysis failed:', error));
     }
-  }, [fen, boardState, engineStatus, isAiThinking, gameOver, isRedAi, isBlackAi, aiLimit]);
+  }, [fen, startFen, uciMoves, boardState, gameStatus, engineStatus, isAiThinking, gameOver, isRedAi, isBlackAi, aiLimit, useBook, mergeEngineInfo]);
 
   const applyMove = useCallback((from: { row: number, col: number }, to: { row: number, col: number }) => {
     // Safety check: ensure source has a piece
@@ -197,26 +368,24 @@ function App(): JSX.Element {
         return;
     }
 
-    // Generate notation before modifying the board
-    const notation = getChineseMoveNotation(boardState.board, { from, to });
-    
     // Save current state to history before modifying
-    setHistory(prev => [...prev, { fen, lastMove }]);
+    setHistory(prev => [...prev, { fen, hash: positionHash, startFen, uciMoves, lastMove }]);
+    setUciMoves(prev => [...prev, toUciMove(from, to)]);
+    setPositionHash(updateZobristHash(positionHash, boardState.board, { from, to }));
 
-    const newBoard = [...boardState.board.map(r => [...r])];
-    newBoard[to.row][to.col] = newBoard[from.row][from.col];
-    newBoard[from.row][from.col] = null;
-    
-    const nextTurn = boardState.turn === 'w' ? 'b' : 'w';
-    const newFen = generateFen(newBoard, nextTurn);
+    const newFen = applyMoveToFen(fen, { from, to });
     
     setLastMove({ from, to });
-    setMoveHistory(prev => [...prev, notation]);
+    setMoveHistory(prev => [...prev, { board: boardState.board, move: { from, to } }]);
     setFen(newFen);
     
     // Ensure timer starts on any move
     if (!isTimerActive) setIsTimerActive(true);
-  }, [boardState, fen, lastMove, isTimerActive]);
+  }, [boardState, fen, positionHash, startFen, uciMoves, lastMove, isTimerActive]);
+
+  // For callbacks that outlive a render (book moves arrive asynchronously)
+  const applyMoveRef = useRef(applyMove);
+  useEffect(() => { applyMoveRef.current = applyMove; }, [applyMove]);
 
   const handleUndo = () => {
     if (history.length === 0) return;
@@ -225,11 +394,14 @@ function App(): JSX.Element {
     if (isAiThinking) {
         setIsAiThinking(false);
         isAiThinkingRef.current = false; // Prevent race condition
-        window.api.sendToEngine('stop');
+        cancelAnalysis();
         
         // Undo 1 step
         const prevState = history[history.length - 1];
         setFen(prevState.fen);
+        setPositionHash(prevState.hash);
+        setStartFen(prevState.startFen);
+        setUciMoves(prevState.uciMoves);
         setLastMove(prevState.lastMove);
         setHistory(prev => prev.slice(0, -1));
         setMoveHistory(prev => prev.slice(0, -1));
@@ -262,6 +434,9 @@ function App(): JSX.Element {
     if (history.length >= stepsToUndo) {
         const prevState = history[history.length - stepsToUndo];
         setFen(prevState.fen);
+        setPositionHash(prevState.hash);
+        setStartFen(prevState.startFen);
+        setUciMoves(prevState.uciMoves);
         setLastMove(prevState.lastMove);
         setHistory(prev => prev.slice(0, -stepsToUndo));
         setMoveHistory(prev => prev.slice(0, -stepsToUndo));
@@ -270,6 +445,9 @@ function App(): JSX.Element {
         // Fallback if not enough history
         const prevState = history[0];
         setFen(prevState.fen);
+        setPositionHash(prevState.hash);
+        setStartFen(prevState.startFen);
+        setUciMoves(prevState.uciMoves);
         setLastMove(prevState.lastMove);
         setHistory([]);
         setMoveHistory([]);
@@ -277,72 +455,156 @@ function App(): JSX.Element {
     }
   };
 
-  // Handle AI Best Move
-  useEffect(() => {
-    const cleanup = window.api.onBestMove((moveStr: string) => {
-      console.log('Best move received:', moveStr, 'isCheckingRule:', isCheckingRuleRef.current);
-      
-      if (isCheckingRuleRef.current) {
-        setIsCheckingRule(false);
-        // If we are just checking rules (Human turn)
-        if (!moveStr || moveStr === '(none)') {
-          const loser = boardState.turn === 'w' ? 'Red' : 'Black';
-          setGameOver(`${loser} Lost! (No legal moves)`);
-        }
-        return;
-      }
+  // Replace the current game with a record, replaying its main line
+  const applyGameRecord = (record: GameRecord) => {
+    cancelAnalysis();
+
+    const entries: typeof history = [];
+    const moves: Array<{ board: BoardState, move: Move }> = [];
+    const playedUci: string[] = [];
+    let currentFen = record.startFen;
+    let hash = hashFen(currentFen);
+    let previousMove: { from: { row: number, col: number }, to: { row: number, col: number } } | null = null;
+    for (const { move } of record.moves) {
+      const { board } = parseFen(currentFen);
+      entries.push({ fen: currentFen, hash, startFen: record.startFen, uciMoves: [...playedUci], lastMove: previousMove });
+      moves.push({ board, move });
+      playedUci.push(toUciMove(move.from, move.to));
+      hash = updateZobristHash(hash, board, move);
+      currentFen = applyMoveToFen(currentFen, move);
+      previousMove = move;
+    }
 
-      // If we are not expecting AI to move (e.g. cancelled by Undo), ignore
-      if (!isAiThinkingRef.current) return;
+    setFen(currentFen);
+    setPositionHash(hash);
+    setStartFen(record.startFen);
+    setUciMoves(playedUci);
+    setHistory(entries);
+    setMoveHistory(moves);
+    setLastMove(previousMove);
+    setGameTags(record.tags);
+    setLoadedGame(record);
+    setGameOver(null);
+    setIsAiThinking(false);
+    setEngineInfo({});
+    setSelectedSquare(null);
+  };
 
-      if (!moveStr || moveStr === '(none)') {
-          isAiThinkingRef.current = false;
-          setIsAiThinking(false);
-          const loser = boardState.turn === 'w' ? 'Red (AI)' : 'Black (AI)';
-          setGameOver(`${loser} Lost! (No legal moves)`);
-          return;
-      }
+  // A loaded game is for review: the engine does not play on from it and the clocks start afresh
+  const loadGameRecord = (record: GameRecord) => {
+    applyGameRecord(record);
+    setIsRedAi(false);
+    setIsBlackAi(false);
 
-      const move = fromUciMove(moveStr);
-      const piece = boardState.board[move.from.row][move.from.col];
-      
-      // Check for Ghost Move (Analysis result arriving during AI turn)
-      // If the move corresponds to a piece of the wrong color, it's likely from the previous turn's analysis
-      if (piece && piece.color !== boardState.turn) {
-          console.warn("Ignored ghost move (wrong turn color):", moveStr);
-          return; // Keep isAiThinking=true, wait for real move
-      }
+    setRedTime(0);
+    setBlackTime(0);
+    setIsTimerActive(false);
+    setActiveTimer(null);
+  };
 
-      // Prevent race conditions: immediately mark as not thinking
-      isAiThinkingRef.current = false;
-      setIsAiThinking(false);
-      
-      // Apply AI move
-      applyMove(move.from, move.to);
-    });
-    return cleanup;
-  }, [applyMove]);
+  const handleOpenGame = async () => {
+    try {
+      const file = await window.api.openGame();
+      if (!file) return;
+      loadGameRecord(parsePgn(decodeGameText(file.data)));
+    } catch (e: any) {
+      console.error(e);
+      alert('打开棋谱失败 (Failed to open game): ' + e.message);
+    }
+  };
 
-  // AI Watchdog to prevent stuck state
-  useEffect(() => {
-    let timer: NodeJS.Timeout;
-    if (isAiThinking) {
-        // Calculate timeout based on AI limit
-        // For 'time' mode: give it a buffer (e.g., 2 seconds) beyond the limit
-        // For 'depth' mode: use a longer safety timeout (e.g., 60 seconds) as depth time is variable
-        const timeoutMs = aiLimit.type === 'time' ? aiLimit.value + 2000 : 60000;
-
-        timer = setTimeout(() => {
-            if (isAiThinkingRef.current) {
-                console.warn(`AI thinking timeout (${timeoutMs}ms), forcing reset`);
-                setIsAiThinking(false);
-                window.api.sendToEngine('stop');
-                setEngineStatus('Ready (Reset after timeout)');
-            }
-        }, timeoutMs);
+  const handleImportGame = async () => {
+    try {
+      const file = await window.api.importGame();
+      if (!file) return;
+      loadGameRecord(parseXqf(file.data));
+    } catch (e: any) {
+      console.error(e);
+      alert('导入棋谱失败 (Failed to import game): ' + e.message);
+    }
+  };
+
+  // ECCO family of the game so far (only for games from the start position)
+  const openingFamily = useMemo(
+    () => classifyOpeningFamily(startFen, uciMoves.map(fromUciMove)),
+    [startFen, uciMoves]
+  );
+
+  // The loaded game while the moves played are still a prefix of its main line
+  const loadedLine = useMemo(() => {
+    if (!loadedGame || loadedGame.startFen !== startFen || uciMoves.length > loadedGame.moves.length) return null;
+    const follows = uciMoves.every((uci, i) => toUciMove(loadedGame.moves[i].move.from, loadedGame.moves[i].move.to) === uci);
+    return follows ? loadedGame : null;
+  }, [loadedGame, startFen, uciMoves]);
+
+  // The current game as a record: the position last set up and the moves played since. Edits
+  // (turn toggle, board setup) start a new base, so earlier moves that no longer replay are left out.
+  const buildGameRecord = (): GameRecord => {
+    const wholeLoadedGame = loadedLine !== null && uciMoves.length === loadedLine.moves.length;
+    let result: GameResult = '*';
+    if (gameStatus.winner) result = gameStatus.winner === 'w' ? '1-0' : '0-1';
+    else if (gameStatus.status === 'draw') result = '1/2-1/2';
+    else if (repetitionVerdict) result = repetitionVerdict.result === 'draw' ? '1/2-1/2' : repetitionVerdict.loser === 'w' ? '0-1' : '1-0';
+    // Not ended on the board: a loaded game shown to its end keeps its result (e.g. a resignation)
+    else if (wholeLoadedGame) result = loadedLine.result;
+
+    // A loaded game's own opening tags describe its whole main line, so they go once the
+    // moves differ. The family tags are always classified from the moves.
+    const ownTags = wholeLoadedGame ? gameTags : withoutOpeningTags(gameTags);
+    const tags = openingFamily ? { ...ownTags, ECCOFamily: openingFamily.code, OpeningFamily: openingFamily.name } : ownTags;
+    const record = createGameRecord(startFen, uciMoves.map(fromUciMove), tags, result);
+    if (loadedLine) {
+      // Its nodes carry the comments and variations
+      record.moves = loadedLine.moves.slice(0, uciMoves.length);
+      record.comment = loadedLine.comment;
+    }
+    return record;
+  };
+
+  const handleSaveGame = async () => {
+    try {
+      const date = new Date().toISOString().slice(0, 10);
+      await window.api.saveGame(writePgn(buildGameRecord(), notationStyle), `xiangqi-${date}.pgn`);
+    } catch (e: any) {
+      console.error(e);
+      alert('保存棋谱失败 (Failed to save game): ' + e.message);
+    }
+  };
+
+  const handlePasteGame = async () => {
+    try {
+      loadGameRecord(parseDhtmlXq(await window.api.readClipboard()));
+    } catch (e: any) {
+      console.error(e);
+      alert('粘贴棋谱失败 (Failed to paste game): ' + e.message);
     }
-    return () => clearTimeout(timer);
-  }, [isAiThinking, aiLimit]);
+  };
+
+  const handleCopyGame = async () => {
+    try {
+      await window.api.writeClipboard(writeDhtmlXq(buildGameRecord()));
+    } catch (e: any) {
+      console.error(e);
+      alert('复制棋谱失败 (Failed to copy game): ' + e.message);
+    }
+  };
+
+  // Mirror the position left to right; the moves played so far are mirrored with it.
+  // The AI sides and the clocks carry on as they were.
+  const handleMirror = () => {
+    const record = buildGameRecord();
+    const mirrorNode = (node: GameNode): GameNode => ({
+      ...node,
+      move: mirrorMove(node.move),
+      variations: node.variations?.map(line => line.map(mirrorNode))
+    });
+    applyGameRecord({
+      ...record,
+      tags: withoutOpeningTags(gameTags), // The family is classified again from the mirrored moves
+      startFen: mirrorHorizontal(record.startFen),
+      moves: record.moves.map(mirrorNode)
+    });
+  };
 
   const handleReRecognize = async () => {
     if (!lastRecognizedImage && !lastSourceId) return;
@@ -371,10 +633,15 @@ function App(): JSX.Element {
         
         // The API returns the FEN directly
         setFen(result.fen);
+        setPositionHash(hashFen(result.fen));
+        setStartFen(result.fen);
+        setUciMoves([]);
+        setGameTags({});
+        setLoadedGame(null);
         
-        const validation = validateFen(result.fen);
-        if (!validation.valid) {
-             alert(`识别结果可能不完整: ${validation.error}\nRecognition might be incomplete.`);
+        const issues = validatePosition(result.fen);
+        if (issues.length > 0) {
+             alert(`识别结果可能不完整:\n${issues.map(i => i.message).join('\n')}\nRecognition might be incomplete.`);
         }
 
         setMoveHistory([]);
@@ -462,13 +729,15 @@ function App(): JSX.Element {
       if (!engineInfo) return [];
       
       const moves: any[] = [];
-      Object.entries(engineInfo).forEach(([k, info]: [string, any]) => {
+      Object.entries(engineInfo).forEach(([k, info]) => {
           if (info.pv) {
               const moveStr = info.pv.split(' ')[0]; // Get the first move of the PV
               if (moveStr) {
                   const move = fromUciMove(moveStr);
                   let score = '';
-                  if (info.scoreType === 'mate') {
+                  if (info.scoreValue === undefined) {
+                      score = '';
+                  } else if (info.scoreType === 'mate') {
                       score = `M${info.scoreValue}`;
                   } else {
                       // CP score is usually from white's perspective in UCI
@@ -483,16 +752,16 @@ function App(): JSX.Element {
                       score = (info.scoreValue / 100).toFixed(2);
                       if (info.scoreValue > 0) score = '+' + score;
                   }
+                  // Fail-high/low scores are only bounds while the engine re-searches
+                  if (score && info.scoreBound) score = (info.scoreBound === 'lower' ? '≥' : '≤') + score;
                   
-                  // Get Chinese Notation
-                  const chineseNotation = getChineseMoveNotation(boardState.board, move);
 
                   moves.push({
                       from: move.from,
                       to: move.to,
                       score: score,
                       rank: parseInt(k),
-                      chineseNotation: chineseNotation // Add Chinese notation to move data
+                      notation: formatMove(boardState.board, move, notationStyle)
                   });
               }
           }
@@ -500,10 +769,18 @@ function App(): JSX.Element {
       return moves;
   };
 
+  const getBookMovesForBoard = () => {
+      const total = bookMoves.reduce((sum, m) => sum + m.weight, 0);
+      return bookMoves.map(({ move, weight }) => ({ ...fromUciMove(move), label: `${Math.round(weight / total * 100)}%` }));
+  };
+
   const handleStartSimulation = () => {
       // Save current state
       setSimulationSnapshot({
           fen,
+          positionHash,
+          startFen,
+          uciMoves,
           moveHistory: [...moveHistory],
           history: [...history],
           lastMove,
@@ -522,6 +799,9 @@ function App(): JSX.Element {
       
       // Restore state
       setFen(simulationSnapshot.fen);
+      setPositionHash(simulationSnapshot.positionHash);
+      setStartFen(simulationSnapshot.startFen);
+      setUciMoves(simulationSnapshot.uciMoves);
       setMoveHistory(simulationSnapshot.moveHistory);
       setHistory(simulationSnapshot.history);
       setLastMove(simulationSnapshot.lastMove);
@@ -535,7 +815,7 @@ function App(): JSX.Element {
       // Stop engine if it was thinking
       if (isAiThinking) {
            setIsAiThinking(false);
-           window.api.sendToEngine('stop');
+           cancelAnalysis();
       }
       // Clear info to force refresh
       setEngineInfo({});
@@ -657,16 +937,20 @@ function App(): JSX.Element {
                 onClick={() => {
                 if (window.confirm('确定要重新开始对局吗？')) {
                     // Stop Engine first
-                    window.api.sendToEngine('stop');
+                    cancelAnalysis();
                     
                     setFen(START_FEN);
+                    setPositionHash(hashFen(START_FEN));
+                    setStartFen(START_FEN);
+                    setUciMoves([]);
                     setGameOver(null);
-                    setIsCheckingRule(false);
                     setIsAiThinking(false);
                     setEngineInfo({}); // Reset Engine Info to empty object instead of null to prevent errors
                     setMoveHistory([]);
                     setHistory([]);
                     setLastMove(null);
+                    setGameTags({});
+                    setLoadedGame(null);
                     
                     // Reset Timers
                     setRedTime(0);
@@ -684,6 +968,57 @@ function App(): JSX.Element {
                 <span>重开</span>
             </button>
 
+            {/* Open / Save Game Buttons */}
+            <button
+                onClick={handleOpenGame}
+                className="px-3 py-1.5 rounded-full font-bold shadow-lg bg-stone-600 text-white hover:bg-stone-700 border border-stone-700 flex items-center gap-1.5 text-sm transition-all"
+                title="打开棋谱 (Open game)"
+            >
+                <span>📂</span>
+                <span>打开</span>
+            </button>
+            <button
+                onClick={handleImportGame}
+                className="px-3 py-1.5 rounded-full font-bold shadow-lg bg-stone-600 text-white hover:bg-stone-700 border border-stone-700 flex items-center gap-1.5 text-sm transition-all"
+                title="导入XQF棋谱 (Import XQF game)"
+            >
+                <span>📥</span>
+                <span>导入</span>
+            </button>
+            <button
+                onClick={handleSaveGame}
+                className="px-3 py-1.5 rounded-full font-bold shadow-lg bg-stone-600 text-white hover:bg-stone-700 border border-stone-700 flex items-center gap-1.5 text-sm transition-all"
+                title="保存棋谱 (Save game)"
+            >
+                <span>💾</span>
+                <span>保存</span>
+            </button>
+            <button
+                onClick={handlePasteGame}
+                className="px-3 py-1.5 rounded-full font-bold shadow-lg bg-stone-600 text-white hover:bg-stone-700 border border-stone-700 flex items-center gap-1.5 text-sm transition-all"
+                title="从剪贴板粘贴DhtmlXQ棋谱 (Paste DhtmlXQ game)"
+            >
+                <span>📋</span>
+                <span>粘贴</span>
+            </button>
+            <button
+                onClick={handleCopyGame}
+                className="px-3 py-1.5 rounded-full font-bold shadow-lg bg-stone-600 text-white hover:bg-stone-700 border border-stone-700 flex items-center gap-1.5 text-sm transition-all"
+                title="复制为DhtmlXQ棋谱 (Copy as DhtmlXQ)"
+            >
+                <span>📄</span>
+                <span>复制</span>
+            </button>
+
+            <button
+                onClick={handleMirror}
+                className="px-3 py-1.5 rounded-full font-bold shadow-lg bg-white text-stone-700 hover:bg-stone-50 hover:text-stone-900 border border-stone-200 flex items-center gap-1.5 text-sm transition-all"
+                title="左右镜像局面 (Mirror position)"
+            >
+                <span>↔</span>
+                <span>镜像</span>
+            </button>
+
             {/* Flip Button */}
             <button
                 onClick={() => setIsFlipped(!isFlipped)}
@@ -702,8 +1037,11 @@ function App(): JSX.Element {
           onSquareClick={handleSquareClick} 
           selectedSquare={selectedSquare}
           lastMove={lastMove}
+          legalTargets={legalTargets}
           isFlipped={isFlipped}
           bestMoves={showAiHints ? getBestMovesForBoard() : []}
+          bookMoves={showAiHints ? getBookMovesForBoard() : []}
+          issueSquares={positionIssues.flatMap(issue => issue.squares)}
         />
         
         {/* Toggle Panel Button (Floating when panel hidden) */}
@@ -773,6 +1111,32 @@ function App(): JSX.Element {
                 <span className="text-gray-700 font-medium">显示AI提示 (Show Hints)</span>
              </label>
 
+             <div className="flex items-center gap-2 mb-2">
+                <label className="flex items-center gap-2">
+                    <input 
+                        type="checkbox" 
+                        checked={useBook}
+                        onChange={(e) => setUseBook(e.target.checked)}
+                        className="w-4 h-4 text-amber-600 rounded focus:ring-amber-500"
+                    />
+                    <span className="text-gray-700 font-medium">使用开局库 (Book)</span>
+                </label>
+                <button
+                    onClick={handleOpenBook}
+                    className="ml-auto px-2 py-0.5 text-xs border border-gray-300 rounded hover:bg-gray-100 truncate max-w-[50%]"
+                    title="载入开局库 (Load opening book)"
+                >
+                    {bookName ?? '载入…'}
+                </button>
+                <button
+                    onClick={handleBuildBook}
+                    className="px-2 py-0.5 text-xs border border-gray-300 rounded hover:bg-gray-100"
+                    title="从棋谱文件夹生成开局库 (Build opening book from a folder of games)"
+                >
+                    生成…
+                </button>
+             </div>
+
              <label className="flex items-center gap-2">
                <span className="text-gray-600 font-medium">思考深度/时间:</span>
                <select 
@@ -793,6 +1157,32 @@ function App(): JSX.Element {
                  <option value="depth_25">深度 25层</option>
                </select>
              </label>
+
+             <label className="flex items-center gap-2 mt-2">
+               <span className="text-gray-600 font-medium">循环规则:</span>
+               <select
+                 className="flex-1 text-xs border border-gray-300 rounded p-1"
+                 value={ruleSet}
+                 onChange={(e) => setRuleSet(e.target.value as RuleSet)}
+               >
+                 {(Object.keys(RULE_SET_NAMES) as RuleSet[]).map(key => (
+                   <option key={key} value={key}>{RULE_SET_NAMES[key]}</option>
+                 ))}
+               </select>
+             </label>
+
+             <label className="flex items-center gap-2 mt-2">
+               <span className="text-gray-600 font-medium">记谱方式:</span>
+               <select
+                 className="flex-1 text-xs border border-gray-300 rounded p-1"
+                 value={notationStyle}
+                 onChange={(e) => setNotationStyle(e.target.value as NotationStyle)}
+               >
+                 {(Object.keys(NOTATION_STYLE_NAMES) as NotationStyle[]).map(key => (
+                   <option key={key} value={key}>{NOTATION_STYLE_NAMES[key]}</option>
+                 ))}
+               </select>
+             </label>
            </div>
         </div>
 
@@ -810,13 +1200,90 @@ function App(): JSX.Element {
                     重启引擎
                 </button>
             )}
+            {engineDescription && (
+                <button
+                    onClick={() => setShowEngineSettings(!showEngineSettings)}
+                    className="px-2 py-1 text-xs bg-gray-200 rounded hover:bg-gray-300 transition-colors"
+                    title="引擎参数"
+                >
+                    {showEngineSettings ? '收起' : '参数'}
+                </button>
+            )}
+            {engineProfiles && (
+                <button
+                    onClick={() => setShowMatch(!showMatch)}
+                    className="px-2 py-1 text-xs bg-gray-200 rounded hover:bg-gray-300 transition-colors"
+                    title="引擎对战 (Engine match)"
+                >
+                    {showMatch ? '收起对战' : '对战'}
+                </button>
+            )}
           </div>
+          {engineProfiles && (
+            <div className="flex items-center gap-1 mb-1">
+              <select
+                className="flex-1 text-sm border rounded px-1"
+                value={engineProfiles.active}
+                onChange={(e) => window.api.selectEngineProfile(e.target.value).then(setEngineProfiles)}
+                title="引擎方案 (Engine profile)"
+              >
+                {engineProfiles.profiles.map(profile => (
+                  <option key={profile.name} value={profile.name}>{profile.name}</option>
+                ))}
+              </select>
+              <button
+                onClick={() => window.api.addEngineProfile().then(setEngineProfiles)}
+                className="px-2 py-1 text-xs bg-gray-200 rounded hover:bg-gray-300 transition-colors"
+                title="添加引擎方案"
+              >
+                添加
+              </button>
+            </div>
+          )}
           <p className="text-sm">{engineStatus}</p>
+          {showEngineSettings && engineDescription && (
+            <div className="mt-2 pt-2 border-t border-gray-200">
+              <EngineSettings
+                description={engineDescription}
+                onChange={handleEngineOption}
+                onChoosePath={() => window.api.chooseEnginePath().then(() => window.api.getEngineProfiles()).then(setEngineProfiles)}
+                onResetPath={() => window.api.resetEnginePath().then(() => window.api.getEngineProfiles()).then(setEngineProfiles)}
+                protocol={engineProfiles?.profiles.find(p => p.name === engineProfiles.active)?.protocol ?? 'uci'}
+                onProtocolChange={(protocol) => window.api.setEngineProtocol(protocol).then(setEngineProfiles)}
+                onRemoveProfile={engineProfiles && engineProfiles.profiles.length > 1
+                  ? () => window.confirm(`确定要删除引擎方案“${engineProfiles.active}”吗？`) &&
+                      window.api.removeEngineProfile(engineProfiles.active).then(setEngineProfiles)
+                  : undefined}
+              />
+            </div>
+          )}
+          {/* Hidden rather than unmounted so a running match keeps its panel */}
+          {engineProfiles && (
+            <div className={`mt-2 pt-2 border-t border-gray-200 ${showMatch ? '' : 'hidden'}`}>
+              <MatchPanel profiles={engineProfiles.profiles.map(p => p.name)} ruleSet={ruleSet} currentFen={fen} />
+            </div>
+          )}
           {isAiThinking && <p className="text-blue-600 font-bold animate-pulse">AI is thinking...</p>}
           {isRecognizing && <p className="text-purple-600 font-bold animate-pulse">Recognizing Board...</p>}
+          {!gameOver && gameStatus.status === 'check' && <p className="text-orange-600 font-bold mt-2">将军! (Check)</p>}
           {gameOver && <p className="text-red-600 font-bold text-lg mt-2">{gameOver}</p>}
         </div>
 
+        {showAiHints && bookMoves.length > 0 && (
+          <div className="p-3 rounded bg-amber-50 text-sm">
+            <h2 className="font-bold mb-1">开局库 (Book)</h2>
+            {(() => {
+              const total = bookMoves.reduce((sum, m) => sum + m.weight, 0);
+              return bookMoves.map(({ move, weight }) => (
+                <div key={move} className="flex justify-between">
+                  <span>{formatMove(boardState.board, fromUciMove(move), notationStyle)}</span>
+                  <span className="text-gray-500">{weight} ({Math.round(weight / total * 100)}%)</span>
+                </div>
+              ));
+            })()}
+          </div>
+        )}
+
         {/* Engine Info Removed */}
 
 
@@ -824,12 +1291,22 @@ function App(): JSX.Element {
         <div className="flex-1 overflow-auto bg-gray-50 rounded p-2 text-sm font-mono flex flex-col-reverse">
            <div className="mt-2 pt-2 border-t border-gray-200">
               <p className="text-gray-500 text-xs">FEN: {fen}</p>
+              {repetitionCount >= 2 && (
+                  <p className={`text-xs ${repetitionCount >= 3 ? 'text-red-600 font-bold' : 'text-amber-600'}`}>
+                      重复局面 ×{repetitionCount}{repetitionCount >= 3 ? ' (Threefold repetition)' : ''}
+                  </p>
+              )}
            </div>
            <div className="flex flex-col gap-1">
-              {moveHistory.map((move, i) => (
+              {openingFamily && (
+                <p className="text-xs text-amber-700 font-sans" title={`ECCO family: ${openingFamily.english}`}>
+                  开局大类 {openingFamily.code} {openingFamily.name}
+                </p>
+              )}
+              {moveHistory.map(({ board, move }, i) => (
                 <div key={i} className="flex justify-between text-stone-700">
                    <span className="w-8 text-gray-400">{i + 1}.</span>
-                   <span className="font-bold">{move}</span>
+                   <span className="font-bold">{formatMove(board, move, notationStyle)}</span>
                 </div>
               ))}
               {moveHistory.length === 0 && <p className="text-gray-400 text-center italic">Game Start</p>}
@@ -853,12 +1330,17 @@ function App(): JSX.Element {
                 console.log("API Result:", result);
                 
                 // Validate FEN
-                const validation = validateFen(result.fen);
-                if (!validation.valid) {
-                     alert(`识别结果可能不完整: ${validation.error}\nRecognition might be incomplete.`);
+                const issues = validatePosition(result.fen);
+                if (issues.length > 0) {
+                     alert(`识别结果可能不完整:\n${issues.map(i => i.message).join('\n')}\nRecognition might be incomplete.`);
                 }
 
                 setFen(result.fen);
+                setPositionHash(hashFen(result.fen));
+                setStartFen(result.fen);
+                setUciMoves([]);
+                setGameTags({});
+                setLoadedGame(null);
                 setMoveHistory([]);
                 setHistory([]);
                 setLastMove(null);
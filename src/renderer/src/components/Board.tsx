@@ -6,14 +6,17 @@ interface BoardProps {
   onSquareClick: (row: number, col: number) => void;
   selectedSquare: { row: number, col: number } | null;
   lastMove: { from: { row: number, col: number }, to: { row: number, col: number } } | null;
+  legalTargets?: Array<{ row: number, col: number }>;
   isFlipped?: boolean;
   bestMoves?: Array<{
       from: { row: number, col: number };
       to: { row: number, col: number };
       score: string;
       rank: number;
-      chineseNotation?: string;
+      notation?: string;
   }>;
+  issueSquares?: Array<{ row: number, col: number }>; // Squares breaking position rules
+  bookMoves?: Array<{ from: { row: number, col: number }, to: { row: number, col: number }, label: string }>; // Opening book moves
 }
 
 const CELL_SIZE = 54;
@@ -29,11 +32,13 @@ interface SquareProps {
     isSelected: boolean;
     isLastMoveFrom: boolean;
     isLastMoveTo: boolean;
+    isLegalTarget: boolean;
+    hasIssue: boolean;
     lastMove: { from: { row: number, col: number }, to: { row: number, col: number } } | null;
     isFlipped: boolean;
 }
 
-const Square: React.FC<SquareProps> = ({ r, c, piece, onSquareClick, isSelected, isLastMoveFrom, isLastMoveTo, lastMove, isFlipped }) => {
+const Square: React.FC<SquareProps> = ({ r, c, piece, onSquareClick, isSelected, isLastMoveFrom, isLastMoveTo, isLegalTarget, hasIssue, lastMove, isFlipped }) => {
     const [animStyle, setAnimStyle] = useState<React.CSSProperties>({ transform: 'translate(3px, 3px)' });
     const lastAnimatedMoveRef = useRef<any>(null);
 
@@ -85,6 +90,8 @@ const Square: React.FC<SquareProps> = ({ r, c, piece, onSquareClick, isSelected,
             className={`absolute flex items-center justify-center rounded-full cursor-pointer transition-transform
               ${isSelected ? 'ring-4 ring-blue-500 z-10 scale-110' : ''}
               ${(isLastMoveFrom || isLastMoveTo) && !isSelected ? 'ring-2 ring-green-500' : ''}
+              ${isLegalTarget && piece ? 'ring-2 ring-blue-400' : ''}
+              ${hasIssue && !isSelected ? 'ring-4 ring-red-500' : ''}
             `}
             style={{
                 width: CELL_SIZE - 6,
@@ -102,13 +109,15 @@ const Square: React.FC<SquareProps> = ({ r, c, piece, onSquareClick, isSelected,
                     {getPieceName(piece.type, piece.color)}
                 </div>
             )}
+            {/* Legal move marker for empty squares */}
+            {!piece && isLegalTarget && <div className="absolute w-3 h-3 bg-blue-500 opacity-70 rounded-full pointer-events-none"></div>}
             {/* Click target for empty squares */}
             {!piece && <div className="w-full h-full opacity-0 hover:opacity-20 bg-blue-400 rounded-full"></div>}
         </div>
     );
 };
 
-export const Board: React.FC<BoardProps> = ({ board, onSquareClick, selectedSquare, lastMove, isFlipped = false, bestMoves = [] }) => {
+export const Board: React.FC<BoardProps> = ({ board, onSquareClick, selectedSquare, lastMove, legalTargets = [], isFlipped = false, bestMoves = [], issueSquares = [], bookMoves = [] }) => {
   // Draw the grid
   const renderGrid = () => {
     return (
@@ -247,7 +256,39 @@ export const Board: React.FC<BoardProps> = ({ board, onSquareClick, selectedSqua
                                 fill={color}
                                 fontWeight="bold"
                             >
-                                {move.chineseNotation || move.score}
+                                {move.notation || move.score}
+                            </text>
+                        </g>
+                    );
+                })}
+            </g>
+        </svg>
+    );
+  };
+
+  // Book moves: dashed green arrows labelled with their share of the book weight
+  const renderBookArrows = () => {
+    if (bookMoves.length === 0) return null;
+
+    const color = '#059669';
+    return (
+        <svg width={BOARD_WIDTH + PADDING * 2} height={BOARD_HEIGHT + PADDING * 2} className="absolute top-0 left-0 z-10 pointer-events-none">
+            <defs>
+                <marker id="arrowhead-book" markerWidth="10" markerHeight="7" refX="9" refY="3.5" orient="auto">
+                    <polygon points="0 0, 10 3.5, 0 7" fill={color} />
+                </marker>
+            </defs>
+            <g transform={`translate(${PADDING}, ${PADDING})`}>
+                {bookMoves.map((move, i) => {
+                    const x1 = (isFlipped ? 8 - move.from.col : move.from.col) * CELL_SIZE;
+                    const y1 = (isFlipped ? 9 - move.from.row : move.from.row) * CELL_SIZE;
+                    const x2 = (isFlipped ? 8 - move.to.col : move.to.col) * CELL_SIZE;
+                    const y2 = (isFlipped ? 9 - move.to.row : move.to.row) * CELL_SIZE;
+                    return (
+                        <g key={`book-${i}`} opacity={0.8}>
+                            <line x1={x1} y1={y1} x2={x2} y2={y2} stroke={color} strokeWidth={3} strokeDasharray="6 4" markerEnd="url(#arrowhead-book)" />
+                            <text x={(x1 + x2) / 2} y={(y1 + y2) / 2} dy="-0.6em" fontSize="10" textAnchor="middle" fill={color} fontWeight="bold">
+                                {move.label}
                             </text>
                         </g>
                     );
@@ -260,6 +301,7 @@ export const Board: React.FC<BoardProps> = ({ board, onSquareClick, selectedSqua
   return (
     <div className="relative select-none bg-amber-100 rounded-lg shadow-xl" style={{ width: BOARD_WIDTH + PADDING * 2, height: BOARD_HEIGHT + PADDING * 2 }}>
       {renderGrid()}
+      {renderBookArrows()}
       {renderArrows()}
       <div className="absolute top-0 left-0 w-full h-full" style={{ padding: PADDING }}>
         {board.map((row, r) => (
@@ -267,6 +309,8 @@ export const Board: React.FC<BoardProps> = ({ board, onSquareClick, selectedSqua
             const isSelected = selectedSquare?.row === r && selectedSquare?.col === c;
             const isLastMoveFrom = lastMove?.from.row === r && lastMove?.from.col === c;
             const isLastMoveTo = lastMove?.to.row === r && lastMove?.to.col === c;
+            const isLegalTarget = legalTargets.some(t => t.row === r && t.col === c);
+            const hasIssue = issueSquares.some(t => t.row === r && t.col === c);
             
             return (
               <Square
@@ -278,6 +322,8 @@ export const Board: React.FC<BoardProps> = ({ board, onSquareClick, selectedSqua
                 isSelected={isSelected}
                 isLastMoveFrom={isLastMoveFrom}
                 isLastMoveTo={isLastMoveTo}
+                isLegalTarget={isLegalTarget}
+                hasIssue={hasIssue}
                 lastMove={lastMove}
                 isFlipped={isFlipped}
               />
@@ -0,0 +1,142 @@
+import React from 'react';
+import { EngineDescription, EngineOption, EngineOptionValue, EngineProtocol } from '../../../shared/engine';
+
+interface EngineSettingsProps {
+  description: EngineDescription;
+  onChange: (name: string, value?: EngineOptionValue) => void;
+  onChoosePath: () => void;
+  onResetPath: () => void;
+  protocol: EngineProtocol;
+  onProtocolChange: (protocol: EngineProtocol) => void;
+  onRemoveProfile?: () => void; // Absent for the last profile
+}
+
+// Options that the GUI sets itself
+const HIDDEN_OPTIONS = new Set(['UCI_Chess960', 'Ponder', 'usemillisec']);
+
+export const EngineSettings: React.FC<EngineSettingsProps> = ({ description, onChange, onChoosePath, onResetPath, protocol, onProtocolChange, onRemoveProfile }) => {
+  const valueOf = (option: EngineOption) => description.values[option.name] ?? option.default;
+
+  const renderInput = (option: EngineOption) => {
+    const value = valueOf(option);
+    switch (option.type) {
+      case 'check':
+        return (
+          <input
+            type="checkbox"
+            checked={value === true}
+            onChange={(e) => onChange(option.name, e.target.checked)}
+          />
+        );
+      case 'spin':
+        return (
+          <input
+            type="number"
+            className="w-24 border rounded px-1"
+            min={option.min}
+            max={option.max}
+            defaultValue={value as number | undefined}
+            onBlur={(e) => {
+              const parsed = parseInt(e.target.value);
+              if (isNaN(parsed)) return;
+              const clamped = Math.min(option.max ?? parsed, Math.max(option.min ?? parsed, parsed));
+              e.target.value = String(clamped);
+              if (clamped !== value) onChange(option.name, clamped);
+            }}
+          />
+        );
+      case 'combo':
+        return (
+          <select
+            className="border rounded px-1"
+            value={String(value ?? '')}
+            onChange={(e) => onChange(option.name, e.target.value)}
+          >
+            {(option.vars ?? []).map(v => <option key={v} value={v}>{v}</option>)}
+          </select>
+        );
+      case 'string':
+        return (
+          <input
+            type="text"
+            className="w-32 border rounded px-1"
+            defaultValue={String(value ?? '')}
+            onBlur={(e) => {
+              if (e.target.value !== (value ?? '')) onChange(option.name, e.target.value);
+            }}
+          />
+        );
+      case 'button':
+        return (
+          <button
+            className="px-2 py-0.5 text-xs bg-gray-200 rounded hover:bg-gray-300"
+            onClick={() => onChange(option.name)}
+          >
+            执行
+          </button>
+        );
+    }
+  };
+
+  return (
+    <div className="text-sm">
+      <p className="text-xs text-gray-500">
+        {description.name}{description.author && ` — ${description.author}`}
+      </p>
+      <div className="flex items-center gap-2 mb-2">
+        <span className="flex-1 text-xs text-gray-500 truncate" title={description.path ?? undefined}>
+          {description.path ?? '内置引擎 (Built-in)'}{!description.customPath && ' (自动)'}
+        </span>
+        <button
+          className="px-2 py-0.5 text-xs bg-gray-200 rounded hover:bg-gray-300"
+          onClick={onChoosePath}
+        >
+          选择引擎
+        </button>
+        {description.customPath && (
+          <button
+            className="px-2 py-0.5 text-xs bg-gray-200 rounded hover:bg-gray-300"
+            onClick={onResetPath}
+            title="按 CPU 自动选择内置的引擎版本"
+          >
+            自动
+          </button>
+        )}
+      </div>
+      {(description.customPath || onRemoveProfile) && (
+        <div className="flex items-center gap-2 mb-2">
+          {description.customPath && (
+            <label className="flex items-center gap-1 text-xs">
+              协议
+              <select
+                className="border rounded px-1"
+                value={protocol}
+                onChange={(e) => onProtocolChange(e.target.value as EngineProtocol)}
+              >
+                <option value="uci">UCI</option>
+                <option value="ucci">UCCI</option>
+              </select>
+            </label>
+          )}
+          {onRemoveProfile && (
+            <button
+              className="ml-auto px-2 py-0.5 text-xs bg-red-100 text-red-700 rounded hover:bg-red-200"
+              onClick={onRemoveProfile}
+            >
+              删除方案
+            </button>
+          )}
+        </div>
+      )}
+      <div className="flex flex-col gap-1">
+        {description.options.filter(o => !HIDDEN_OPTIONS.has(o.name)).map(option => (
+          // Keyed by value so the uncontrolled inputs pick up changes made elsewhere
+          <label key={`${option.name}:${valueOf(option)}`} className="flex justify-between items-center gap-2">
+            <span className="truncate" title={option.name}>{option.name}</span>
+            {renderInput(option)}
+          </label>
+        ))}
+      </div>
+    </div>
+  );
+};
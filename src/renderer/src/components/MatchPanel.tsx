@@ -0,0 +1,165 @@
+import React, { useEffect, useState } from 'react';
+import { validateFen } from '../lib/xiangqi';
+import { RuleSet } from '../lib/rules';
+import { MatchReport } from '../../../shared/match';
+
+interface MatchPanelProps {
+  profiles: string[];
+  ruleSet: RuleSet;
+  currentFen: string;
+}
+
+const SPRT_ERRORS = { alpha: 0.05, beta: 0.05 };
+
+const formatElo = (value: number) => (Number.isFinite(value) ? value.toFixed(1) : value > 0 ? '∞' : '-∞');
+
+// The opponent of `first`: another engine where there is one
+const otherProfile = (profiles: string[], first: string) => profiles.find(name => name !== first) ?? first;
+
+export const MatchPanel: React.FC<MatchPanelProps> = ({ profiles, ruleSet, currentFen }) => {
+  const [first, setFirst] = useState(profiles[0] ?? '');
+  const [second, setSecond] = useState(otherProfile(profiles, profiles[0] ?? ''));
+  const [games, setGames] = useState(20);
+  const [time, setTime] = useState(60); // Seconds
+  const [increment, setIncrement] = useState(1);
+  const [openings, setOpenings] = useState('');
+  const [elo0, setElo0] = useState(0);
+  const [elo1, setElo1] = useState(10);
+  const [running, setRunning] = useState(false);
+  const [report, setReport] = useState<MatchReport | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => window.api.onMatchProgress(setReport), []);
+
+  // Profiles added or removed: replace removed choices, and a self-play default once there is a second engine
+  const profileKey = profiles.join('\n');
+  useEffect(() => {
+    const nextFirst = profiles.includes(first) ? first : profiles[0] ?? '';
+    const keepSecond = profiles.includes(second) && (second !== nextFirst || profiles.length < 2);
+    setFirst(nextFirst);
+    setSecond(keepSecond ? second : otherProfile(profiles, nextFirst));
+  }, [profileKey]);
+
+  const start = async () => {
+    // One FEN per line; none plays from the start position
+    const fens = openings.split('\n').map(line => line.trim()).filter(Boolean);
+    const invalid = fens.find(fen => !validateFen(fen).valid);
+    if (invalid) {
+      setError(`无效的 FEN (Invalid FEN): ${invalid}`);
+      return;
+    }
+    setError(null);
+    setReport(null);
+    setRunning(true);
+    try {
+      const final = await window.api.startMatch({
+        profiles: [first, second],
+        games,
+        openings: fens,
+        time: time * 1000,
+        increment: increment * 1000,
+        ruleSet,
+        sprt: { elo0, elo1, ...SPRT_ERRORS }
+      });
+      if (final) setReport(final);
+    } catch (e: any) {
+      setError(e.message);
+    } finally {
+      setRunning(false);
+    }
+  };
+
+  const numberInput = (value: number, onChange: (value: number) => void, min?: number) => (
+    <input
+      type="number"
+      className="w-16 border rounded px-1"
+      value={value}
+      min={min}
+      disabled={running}
+      onChange={(e) => {
+        const parsed = parseFloat(e.target.value);
+        if (!isNaN(parsed)) onChange(parsed);
+      }}
+    />
+  );
+
+  const profileSelect = (value: string, onChange: (value: string) => void) => (
+    <select className="flex-1 border rounded px-1" value={value} disabled={running} onChange={(e) => onChange(e.target.value)}>
+      {profiles.map(name => <option key={name} value={name}>{name}</option>)}
+    </select>
+  );
+
+  return (
+    <div className="text-sm flex flex-col gap-1">
+      <div className="flex items-center gap-1">
+        {profileSelect(first, setFirst)}
+        <span className="text-xs text-gray-500">vs</span>
+        {profileSelect(second, setSecond)}
+      </div>
+      <div className="flex flex-wrap items-center gap-2 text-xs">
+        <label className="flex items-center gap-1">局数 {numberInput(games, setGames, 1)}</label>
+        <label className="flex items-center gap-1">用时(秒) {numberInput(time, setTime, 1)}</label>
+        <label className="flex items-center gap-1">加秒 {numberInput(increment, setIncrement, 0)}</label>
+      </div>
+      <div className="flex items-center gap-2 text-xs">
+        <span title="SPRT: H0 elo0 与 H1 elo1 (α = β = 0.05)">SPRT</span>
+        <label className="flex items-center gap-1">elo0 {numberInput(elo0, setElo0)}</label>
+        <label className="flex items-center gap-1">elo1 {numberInput(elo1, setElo1)}</label>
+      </div>
+      <textarea
+        className="border rounded px-1 text-xs font-mono"
+        rows={3}
+        placeholder="开局 FEN，每行一个；留空则从初始局面开始"
+        value={openings}
+        disabled={running}
+        onChange={(e) => setOpenings(e.target.value)}
+      />
+      <div className="flex gap-1">
+        <button
+          className="px-2 py-0.5 text-xs bg-gray-200 rounded hover:bg-gray-300 disabled:opacity-50"
+          disabled={running}
+          onClick={() => setOpenings(openings.trim() ? `${openings.trim()}\n${currentFen}` : currentFen)}
+          title="添加当前局面为开局"
+        >
+          添加当前局面
+        </button>
+        {running ? (
+          <button
+            className="ml-auto px-2 py-0.5 text-xs bg-red-100 text-red-700 rounded hover:bg-red-200"
+            onClick={() => window.api.stopMatch()}
+          >
+            停止
+          </button>
+        ) : (
+          <button
+            className="ml-auto px-2 py-0.5 text-xs bg-blue-600 text-white rounded hover:bg-blue-700 disabled:opacity-50"
+            disabled={!first || !second}
+            onClick={start}
+          >
+            开始对战
+          </button>
+        )}
+      </div>
+      {error && <p className="text-xs text-red-600">{error}</p>}
+      {report && (
+        <div className="text-xs mt-1">
+          <p>
+            {report.players[0]} 对 {report.players[1]}：{report.games} 局，
+            胜 {report.wins} / 和 {report.draws} / 负 {report.losses}
+          </p>
+          <p>Elo {formatElo(report.elo)} ± {formatElo(report.eloMargin)}</p>
+          <p>
+            LLR {report.sprt.llr.toFixed(2)} ({report.sprt.lowerBound.toFixed(2)}, {report.sprt.upperBound.toFixed(2)})
+            {report.sprt.result && <span className="font-bold"> {report.sprt.result === 'H1' ? '通过 (H1)' : '未通过 (H0)'}</span>}
+          </p>
+          {report.lastGame && (
+            <p className="text-gray-500">
+              上一局：{report.lastGame.red} 对 {report.lastGame.black} {report.lastGame.result} {report.lastGame.reason}
+            </p>
+          )}
+        </div>
+      )}
+      {running && <p className="text-xs text-blue-600 animate-pulse">对战中…</p>}
+    </div>
+  );
+};
@@ -0,0 +1,61 @@
+import { describe, it, expect } from 'vitest';
+import { START_FEN, fromUciMove, toUciMove } from './xiangqi';
+import { createGameRecord } from './game';
+import { parseDhtmlXq, writeDhtmlXq } from './dhtmlxq';
+
+const uci = (m: { from: { row: number, col: number }, to: { row: number, col: number } }) => toUciMove(m.from, m.to);
+
+describe('DhtmlXQ', () => {
+  const sample = `[DhtmlXQ]
+[DhtmlXQ_ver]www_dpxq_com[/DhtmlXQ_ver]
+[DhtmlXQ_event]Test Cup[/DhtmlXQ_event]
+[DhtmlXQ_red]Red Player[/DhtmlXQ_red]
+[DhtmlXQ_result]红胜[/DhtmlXQ_result]
+[DhtmlXQ_binit]8979695949392919097717866646260600102030405060708012720323436383[/DhtmlXQ_binit]
+[DhtmlXQ_movelist]774770628988[/DhtmlXQ_movelist]
+[DhtmlXQ_comment0]Opening[/DhtmlXQ_comment0]
+[DhtmlXQ_comment1]Central||Cannon[/DhtmlXQ_comment1]
+[DhtmlXQ_move_0_2_1]7242[/DhtmlXQ_move_0_2_1]
+[DhtmlXQ_comment1_2]Same file[/DhtmlXQ_comment1_2]
+[/DhtmlXQ]`;
+
+  it('should read the position, moves, comments and variations', () => {
+      const record = parseDhtmlXq(`Posted game:\n${sample}\nThanks`);
+      expect(record.startFen).toBe(START_FEN);
+      expect(record.tags.Event).toBe('Test Cup');
+      expect(record.tags.Red).toBe('Red Player');
+      expect(record.result).toBe('1-0');
+      expect(record.comment).toBe('Opening');
+      expect(record.moves.map(n => uci(n.move))).toEqual(['h2e2', 'h9g7', 'i0i1']);
+      expect(record.moves[0].comment).toBe('Central\nCannon');
+      expect(record.moves[1].variations?.[0].map(n => uci(n.move))).toEqual(['h7e7']);
+      expect(record.moves[1].variations?.[0][0].comment).toBe('Same file');
+  });
+
+  it('should take the side to move from the first move', () => {
+      // Kings and one Black Rook; Black moves first
+      const slots = new Array(32).fill('99');
+      slots[4] = '49'; // Red King
+      slots[16] = '00'; // Black Rook
+      slots[20] = '31'; // Black King
+      const binit = slots.join('');
+      const record = parseDhtmlXq(`[DhtmlXQ_binit]${binit}[/DhtmlXQ_binit][DhtmlXQ_movelist]0001[/DhtmlXQ_movelist]`);
+      expect(record.startFen).toBe('r8/3k5/9/9/9/9/9/9/9/4K4 b - - 0 1');
+      expect(record.moves.map(n => uci(n.move))).toEqual(['a9a8']);
+  });
+
+  it('should reject text without a record and illegal moves', () => {
+      expect(() => parseDhtmlXq('[Event "PGN"]')).toThrow('No DhtmlXQ record');
+      expect(() => parseDhtmlXq('[DhtmlXQ_movelist]77471010[/DhtmlXQ_movelist]')).toThrow('Illegal');
+  });
+
+  it('should write a record that reads back identically', () => {
+      const record = parseDhtmlXq(sample);
+      const again = parseDhtmlXq(writeDhtmlXq(record));
+      expect(again).toEqual(record);
+
+      const simple = createGameRecord(START_FEN, [fromUciMove('h2e2')]);
+      expect(writeDhtmlXq(simple)).toContain('[DhtmlXQ_movelist]7747[/DhtmlXQ_movelist]');
+      expect(writeDhtmlXq(simple)).toContain('[DhtmlXQ_binit]8979695949392919097717866646260600102030405060708012720323436383[/DhtmlXQ_binit]');
+  });
+});
@@ -0,0 +1,220 @@
+import { BoardState, Move, PieceColor, PieceType, START_FEN, parseFen, generateFen, fromUciMove, toUciMove, isLegalMove, validateFen, applyMoveToFen } from './xiangqi';
+import { GameNode, GameRecord, GameResult } from './game';
+
+// DhtmlXQ UBB blocks, as published by web viewers and forums:
+//
+//   [DhtmlXQ]
+//   [DhtmlXQ_binit]8979695949392919...[/DhtmlXQ_binit]
+//   [DhtmlXQ_movelist]77477967...[/DhtmlXQ_movelist]
+//   [DhtmlXQ_comment1]...[/DhtmlXQ_comment1]
+//   [DhtmlXQ_move_0_3_1]...[/DhtmlXQ_move_0_3_1]
+//   [/DhtmlXQ]
+//
+// Squares are two digits "xy": x is the file from Red's left (0-8) and y the
+// rank from Black's side (0-9), i.e. x = col and y = row. binit lists the 32
+// pieces in a fixed order ("99" when captured); moves are four digits.
+// move_P_S_B is branch B, replacing ply S of branch P (0 = main line), and
+// commentB_S is the comment after ply S of branch B (commentS on the main line).
+
+const PIECE_ORDER: PieceType[] = ['r', 'n', 'b', 'a', 'k', 'a', 'b', 'n', 'r', 'c', 'c', 'p', 'p', 'p', 'p', 'p'];
+const OFF_BOARD = '99';
+
+const RESULT_NAMES: Record<GameResult, string> = { '1-0': '红胜', '0-1': '黑胜', '1/2-1/2': '和棋', '*': '未知' };
+
+const TAG_FIELDS: Array<[tag: string, field: string]> = [
+  ['Title', 'title'],
+  ['Event', 'event'],
+  ['Date', 'date'],
+  ['Site', 'place'],
+  ['Round', 'round'],
+  ['Opening', 'open'],
+  ['Red', 'red'],
+  ['Black', 'black'],
+  ['Annotator', 'remark'],
+  ['Author', 'author']
+];
+
+interface Branch {
+  start: number; // Ply number (1-based) of the first move
+  nodes: GameNode[];
+  fens: string[]; // Position before each node
+}
+
+function squareToUci(digits: string): string {
+  return String.fromCharCode(97 + Number(digits[0])) + (9 - Number(digits[1]));
+}
+
+function uciToSquare(uci: string): string {
+  return `${uci.charCodeAt(0) - 97}${9 - Number(uci[1])}`;
+}
+
+// Comments use "||" for line breaks and must not contain the closing tag
+function decodeComment(text: string): string {
+  return text.replace(/\|\|/g, '\n').trim();
+}
+
+function encodeComment(text: string): string {
+  return text.replace(/\r?\n/g, '||').replace(/\[/g, '(').replace(/\]/g, ')');
+}
+
+function parseBoard(binit: string): BoardState {
+  const board: BoardState = Array(10).fill(null).map(() => Array(9).fill(null));
+  for (let i = 0; i < 32 && i * 2 + 1 < binit.length; i++) {
+    const square = binit.slice(i * 2, i * 2 + 2);
+    if (square === OFF_BOARD || !/^[0-8][0-9]$/.test(square)) continue;
+    const color: PieceColor = i < 16 ? 'w' : 'b';
+    board[Number(square[1])][Number(square[0])] = { type: PIECE_ORDER[i % 16], color };
+  }
+  return board;
+}
+
+function parseMoves(digits: string, fen: string): { nodes: GameNode[], fens: string[] } {
+  const nodes: GameNode[] = [];
+  const fens: string[] = [];
+  let current = fen;
+  for (let i = 0; i + 3 < digits.length; i += 4) {
+    const uci = squareToUci(digits.slice(i, i + 2)) + squareToUci(digits.slice(i + 2, i + 4));
+    const move = fromUciMove(uci);
+    const { board, turn } = parseFen(current);
+    const piece = board[move.from.row][move.from.col];
+    if (!piece || piece.color !== turn || !isLegalMove(board, move)) {
+      throw new Error(`着法不合法 (Illegal move): ${digits.slice(i, i + 4)}`);
+    }
+    nodes.push({ move });
+    fens.push(current);
+    current = applyMoveToFen(current, move);
+  }
+  return { nodes, fens };
+}
+
+/**
+ * Parses a `[DhtmlXQ]` UBB block into a game record.
+ * Throws when no record is found or a move is illegal.
+ */
+export function parseDhtmlXq(text: string): GameRecord {
+  const fields = new Map<string, string>();
+  const pattern = /\[DhtmlXQ_(\w+)\]([\s\S]*?)\[\/DhtmlXQ_\1\]/g;
+  let match: RegExpExecArray | null;
+  while ((match = pattern.exec(text)) !== null) fields.set(match[1], match[2].trim());
+  if (!fields.has('binit') && !fields.has('movelist')) {
+    throw new Error('未找到DhtmlXQ棋谱 (No DhtmlXQ record found)');
+  }
+
+  // 1. Starting position; the side to move is whoever plays the first move
+  let startFen = START_FEN;
+  const binit = fields.get('binit')?.replace(/\s+/g, '');
+  const movelist = (fields.get('movelist') ?? '').replace(/\s+/g, '');
+  if (binit) {
+    const board = parseBoard(binit);
+    const first = movelist.slice(0, 2);
+    const mover = first.length === 2 ? board[Number(first[1])]?.[Number(first[0])] : null;
+    startFen = generateFen(board, mover?.color ?? 'w');
+    const validation = validateFen(startFen);
+    if (!validation.valid) throw new Error(`DhtmlXQ局面无效 (Invalid DhtmlXQ position): ${validation.error}`);
+  }
+
+  const tags: Record<string, string> = {};
+  for (const [tag, field] of TAG_FIELDS) {
+    const value = fields.get(field);
+    if (value) tags[tag] = value;
+  }
+  const resultText = fields.get('result') ?? '';
+  const result = (Object.keys(RESULT_NAMES) as GameResult[]).find(r => resultText.includes(RESULT_NAMES[r]) || resultText === r) ?? '*';
+  tags.Result = result;
+
+  // 2. Main line and branches; a branch's parent is always listed before it
+  const branches = new Map<number, Branch>();
+  branches.set(0, { start: 1, ...parseMoves(movelist, startFen) });
+
+  const branchKeys = [...fields.keys()]
+    .map(key => key.match(/^move_(\d+)_(\d+)_(\d+)$/))
+    .filter((m): m is RegExpMatchArray => !!m)
+    .map(m => ({ key: m[0], parent: Number(m[1]), start: Number(m[2]), id: Number(m[3]) }))
+    .sort((a, b) => a.id - b.id);
+
+  for (const { key, parent, start, id } of branchKeys) {
+    const parentBranch = branches.get(parent);
+    const index = parentBranch ? start - parentBranch.start : -1;
+    if (!parentBranch || index < 0 || index >= parentBranch.nodes.length) continue;
+    const branch = { start, ...parseMoves(fields.get(key)!.replace(/\s+/g, ''), parentBranch.fens[index]) };
+    if (branch.nodes.length === 0) continue;
+    branches.set(id, branch);
+    const replaced = parentBranch.nodes[index];
+    (replaced.variations ??= []).push(branch.nodes);
+  }
+
+  // 3. Comments
+  for (const [key, value] of fields) {
+    const comment = key.match(/^comment(?:(\d+)_)?(\d+)$/);
+    if (!comment || !value) continue;
+    const branch = branches.get(comment[1] === undefined ? 0 : Number(comment[1]));
+    const ply = Number(comment[2]);
+    if (!branch) continue;
+    const node = branch.nodes[ply - branch.start];
+    if (node) node.comment = decodeComment(value);
+  }
+
+  const record: GameRecord = { tags, startFen, moves: branches.get(0)!.nodes, result };
+  const opening = fields.get('comment0');
+  if (opening) record.comment = decodeComment(opening);
+  return record;
+}
+
+// Each side's pieces fill their slots from that side's right, as in the standard binit
+function writeBoard(board: BoardState): string {
+  const slots = new Array<string>(32).fill(OFF_BOARD);
+  for (const color of ['w', 'b'] as PieceColor[]) {
+    const base = color === 'w' ? 0 : 16;
+    for (let i = 0; i < 9; i++) {
+      const col = color === 'w' ? 8 - i : i;
+      for (let row = 0; row < 10; row++) {
+        const piece = board[row][col];
+        if (!piece || piece.color !== color) continue;
+        const slot = PIECE_ORDER.findIndex((type, j) => type === piece.type && slots[base + j] === OFF_BOARD);
+        if (slot >= 0) slots[base + slot] = `${col}${row}`;
+      }
+    }
+  }
+  return slots.join('');
+}
+
+function writeMoves(moves: Move[]): string {
+  return moves.map(m => {
+    const uci = toUciMove(m.from, m.to);
+    return uciToSquare(uci.slice(0, 2)) + uciToSquare(uci.slice(2));
+  }).join('');
+}
+
+/**
+ * Writes a game record as a `[DhtmlXQ]` UBB block, including comments and variations.
+ */
+export function writeDhtmlXq(record: GameRecord): string {
+  const lines: string[] = ['[DhtmlXQ]'];
+  const field = (name: string, value: string) => lines.push(`[DhtmlXQ_${name}]${value}[/DhtmlXQ_${name}]`);
+
+  for (const [tag, name] of TAG_FIELDS) {
+    if (record.tags[tag]) field(name, encodeComment(record.tags[tag]));
+  }
+  field('result', RESULT_NAMES[record.result]);
+  field('binit', writeBoard(parseFen(record.startFen).board));
+  field('movelist', writeMoves(record.moves.map(n => n.move)));
+  if (record.comment) field('comment0', encodeComment(record.comment));
+
+  let nextId = 1;
+  const writeBranch = (nodes: GameNode[], id: number, start: number) => {
+    nodes.forEach((node, i) => {
+      if (node.comment) field(id === 0 ? `comment${start + i}` : `comment${id}_${start + i}`, encodeComment(node.comment));
+    });
+    nodes.forEach((node, i) => {
+      for (const variation of node.variations ?? []) {
+        const variationId = nextId++;
+        field(`move_${id}_${start + i}_${variationId}`, writeMoves(variation.map(n => n.move)));
+        writeBranch(variation, variationId, start + i);
+      }
+    });
+  };
+  writeBranch(record.moves, 0, 1);
+
+  lines.push('[/DhtmlXQ]');
+  return lines.join('\n');
+}
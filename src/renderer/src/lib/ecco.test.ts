@@ -0,0 +1,32 @@
+import { describe, it, expect } from 'vitest';
+import { START_FEN, fromUciMove } from './xiangqi';
+import { classifyOpeningFamily } from './ecco';
+
+const classify = (moves: string) => classifyOpeningFamily(START_FEN, moves.split(' ').map(fromUciMove))?.code;
+
+describe('classifyOpeningFamily', () => {
+  it('should classify Central Cannon defences', () => {
+      expect(classify('h2e2 h9g7 h0g2 b9c7')).toBe('C00');
+      expect(classify('h2e2 h7e7')).toBe('D00');
+      expect(classify('h2e2 b7e7')).toBe('D50');
+      expect(classify('h2e2 b9c7 h0g2 h7f7 i0h0 h9g7')).toBe('B30');
+      expect(classify('h2e2 h9g7 h0g2 h7i7')).toBe('B20');
+      expect(classify('h2e2 a6a5')).toBe('B00');
+  });
+
+  it('should classify transpositions and openings on the other wing alike', () => {
+      // Screen Horses reached after other moves, and the mirrored Central Cannon
+      expect(classify('h2e2 h9g7 h0g2 i9h9 i0h0 b9c7')).toBe('C00');
+      expect(classify('b2e2 b9c7 b0c2 h9g7')).toBe('C00');
+      expect(classify('b2e2 h7e7')).toBe('D50');
+      expect(classify('g3g4')).toBe('E00');
+      expect(classify('c3c4 c6c5')).toBe('E40');
+  });
+
+  it('should name the opening and fall back to irregular openings', () => {
+      expect(classifyOpeningFamily(START_FEN, [fromUciMove('g0e2')])).toEqual({ code: 'A10', name: '飞相局', english: 'Elephant Opening' });
+      expect(classify('a0a1')).toBe('A00');
+      expect(classifyOpeningFamily(START_FEN, [])).toBeNull();
+      expect(classifyOpeningFamily('4k4/9/9/9/9/4P4/9/9/9/4K4 w - - 0 1', [fromUciMove('e4e5')])).toBeNull();
+  });
+});
@@ -0,0 +1,86 @@
+import { Move, START_FEN, toUciMove, mirrorMove } from './xiangqi';
+
+// ECCO (Encyclopedia of Chinese Chess Openings) classification at the level
+// of the main families only: A (Red openings other than the Central Cannon),
+// B-D (Central Cannon against the various defences) and E (Pawn openings).
+// Each family is named by its first code (e.g. C00 for every Screen Horses
+// defence); the sub-variations within a family are not told apart.
+//
+// Each rule names Red's first move, optionally Black's first reply, and moves
+// each side must have played within its first OPENING_WINDOW moves, in any
+// order so transpositions classify alike. Rules are tried in order, so the
+// more specific ones come first. Moves are UCI from Red's right-hand side;
+// games opening on the other wing are classified through their mirror image.
+
+export interface EccoFamily {
+  code: string;
+  name: string;
+  english: string;
+}
+
+interface EccoRule extends EccoFamily {
+  first: string; // Red's first move
+  reply?: string; // Black's first move
+  red?: string[];
+  black?: string[];
+}
+
+const OPENING_WINDOW = 5;
+
+const ECCO_RULES: EccoRule[] = [
+  // Central Cannon (炮二平五)
+  { code: 'D50', name: '中炮对列炮', english: 'Central Cannon vs Opposite Cannon', first: 'h2e2', reply: 'b7e7' },
+  { code: 'D00', name: '顺炮局', english: 'Same Direction Cannons', first: 'h2e2', reply: 'h7e7' },
+  { code: 'B30', name: '中炮对反宫马', english: 'Central Cannon vs Reverse Palace Horses', first: 'h2e2', black: ['h9g7', 'b9c7', 'h7f7'] },
+  { code: 'B20', name: '中炮对左三步虎', english: 'Central Cannon vs Left Three-Step Tiger', first: 'h2e2', black: ['h9g7', 'h7i7'] },
+  { code: 'B10', name: '中炮对单提马', english: 'Central Cannon vs Single Lifted Horse', first: 'h2e2', black: ['b9c7', 'h9i7'] },
+  { code: 'C00', name: '中炮对屏风马', english: 'Central Cannon vs Screen Horses', first: 'h2e2', black: ['h9g7', 'b9c7'] },
+  { code: 'B00', name: '中炮局', english: 'Central Cannon', first: 'h2e2' },
+  // Pawn openings (兵七进一)
+  { code: 'E40', name: '对兵局', english: 'Facing Pawns', first: 'c3c4', reply: 'c6c5' },
+  { code: 'E10', name: '仙人指路对卒底炮', english: 'Pawn Opening vs Cannon Under Pawn', first: 'c3c4', reply: 'b7c7' },
+  { code: 'E00', name: '仙人指路', english: 'Pawn Opening', first: 'c3c4' },
+  // Other Red openings
+  { code: 'A10', name: '飞相局', english: 'Elephant Opening', first: 'c0e2' },
+  { code: 'A40', name: '起马局', english: 'Horse Opening', first: 'h0g2' },
+  { code: 'A50', name: '仕角炮局', english: 'Palace Corner Cannon', first: 'h2f2' },
+  { code: 'A60', name: '过宫炮局', english: 'Cross Palace Cannon', first: 'h2d2' },
+  { code: 'A01', name: '上仕局', english: 'Advisor Opening', first: 'f0e1' },
+  { code: 'A02', name: '边马局', english: 'Edge Horse Opening', first: 'h0i2' },
+  { code: 'A03', name: '边炮局', english: 'Edge Cannon Opening', first: 'h2i2' },
+  { code: 'A04', name: '巡河炮局', english: 'River Cannon Opening', first: 'h2h4' },
+  { code: 'A05', name: '过河炮局', english: 'Cross River Cannon Opening', first: 'h2h6' },
+  { code: 'A06', name: '兵底炮局', english: 'Cannon Under Pawn Opening', first: 'h2g2' },
+  { code: 'A08', name: '边兵局', english: 'Edge Pawn Opening', first: 'i3i4' }
+];
+
+const IRREGULAR: EccoFamily = { code: 'A00', name: '非常规开局', english: 'Irregular Opening' };
+
+function matchRule(moves: string[]): number {
+  const red = moves.filter((_, i) => i % 2 === 0).slice(0, OPENING_WINDOW);
+  const black = moves.filter((_, i) => i % 2 === 1).slice(0, OPENING_WINDOW);
+  return ECCO_RULES.findIndex(rule =>
+    red[0] === rule.first &&
+    (!rule.reply || black[0] === rule.reply) &&
+    (rule.red ?? []).every(m => red.includes(m)) &&
+    (rule.black ?? []).every(m => black.includes(m))
+  );
+}
+
+/**
+ * Finds the ECCO family of a game played from the standard start position.
+ * Returns null for other start positions or before the first move.
+ */
+export function classifyOpeningFamily(startFen: string, moves: Move[]): EccoFamily | null {
+  if (moves.length === 0 || startFen.split(' ').slice(0, 2).join(' ') !== START_FEN.split(' ').slice(0, 2).join(' ')) {
+    return null;
+  }
+
+  const played = moves.map(m => toUciMove(m.from, m.to));
+  const mirrored = moves.map(m => mirrorMove(m)).map(m => toUciMove(m.from, m.to));
+  const matches = [matchRule(played), matchRule(mirrored)].filter(i => i >= 0);
+  if (matches.length === 0) return IRREGULAR;
+
+  const { code, name, english } = ECCO_RULES[Math.min(...matches)];
+  return { code, name, english };
+}
@@ -0,0 +1,50 @@
+import { Move, START_FEN, applyMoveToFen } from './xiangqi';
+
+// A game record independent of any file format. Importers produce it and
+// exporters consume it; the main line is `moves`, and any node may carry
+// alternatives to its own move.
+
+export type GameResult = '1-0' | '0-1' | '1/2-1/2' | '*';
+
+export interface GameNode {
+  move: Move;
+  comment?: string; // Comment after the move
+  variations?: GameNode[][]; // Alternatives to this move, each played from the same position
+}
+
+export interface GameRecord {
+  tags: Record<string, string>;
+  startFen: string;
+  moves: GameNode[];
+  result: GameResult;
+  comment?: string; // Comment before the first move
+}
+
+export function createGameRecord(startFen: string = START_FEN, moves: Move[] = [], tags: Record<string, string> = {}, result: GameResult = '*'): GameRecord {
+  return { tags: { ...tags }, startFen, moves: moves.map(move => ({ move })), result };
+}
+
+/**
+ * Replays the main line, returning the FEN before each move.
+ */
+export function getMainlinePositions(record: GameRecord): Array<{ fen: string, move: Move }> {
+  const positions: Array<{ fen: string, move: Move }> = [];
+  let fen = record.startFen;
+  for (const node of record.moves) {
+    positions.push({ fen, move: node.move });
+    fen = applyMoveToFen(fen, node.move);
+  }
+  return positions;
+}
+
+/**
+ * Decodes a text game file. Most Chinese records are saved as GBK rather
+ * than UTF-8, so invalid UTF-8 falls back to GB18030 (a superset of GBK).
+ */
+export function decodeGameText(bytes: Uint8Array): string {
+  try {
+    return new TextDecoder('utf-8', { fatal: true }).decode(bytes).replace(/^\uFEFF/, '');
+  } catch {
+    return new TextDecoder('gb18030').decode(bytes);
+  }
+}
@@ -0,0 +1,57 @@
+import { describe, it, expect } from 'vitest';
+import { START_FEN } from './xiangqi';
+import { perft, perftDivide, formatPerftDivide, parsePerftOutput, comparePerftDivide } from './perft';
+
+const moveList = (fen: string) => Object.keys(perftDivide(fen, 1)).sort();
+
+describe('Perft', () => {
+  it('should match the reference counts for the start position', () => {
+      expect(perft(START_FEN, 1)).toBe(44);
+      expect(perft(START_FEN, 2)).toBe(1920);
+      expect(perft(START_FEN, 3)).toBe(79666);
+  });
+
+  it('should match the reference counts for a middlegame position', () => {
+      const fen = 'r1ba1a3/4kn3/2n1b4/pNp1p1p1p/4c4/6P2/P1P2R2P/1CcC5/9/2BAKAB2 w - - 0 1';
+      expect(perft(fen, 1)).toBe(38);
+      expect(perft(fen, 2)).toBe(1128);
+      expect(perft(fen, 3)).toBe(43929);
+  });
+
+  it('should sum the divide to the perft count', () => {
+      const divide = perftDivide(START_FEN, 2);
+      expect(Object.keys(divide)).toHaveLength(44);
+      expect(divide.h2e2).toBe(45);
+      expect(Object.values(divide).reduce((a, b) => a + b, 0)).toBe(1920);
+      expect(formatPerftDivide(divide)).toContain('Nodes searched: 1920');
+  });
+
+  it('should not jump a Horse over a blocked leg', () => {
+      // The Pawn on e6 blocks the Horse on e5 from reaching d7 and f7
+      expect(moveList('3k5/9/9/4P4/4N4/9/9/9/9/4K4 w - - 0 1').filter(m => m.startsWith('e5')))
+        .toEqual(['e5c4', 'e5c6', 'e5d3', 'e5f3', 'e5g4', 'e5g6']);
+  });
+
+  it('should only capture with a Cannon over exactly one screen', () => {
+      // Cannon on b2: the Horse on b6 is the screen, the Rook on b8 the only capture
+      expect(moveList('3k5/1r7/9/1n7/9/9/9/1C7/9/4K4 w - - 0 1').filter(m => m.startsWith('b2')))
+        .toEqual(['b2a2', 'b2b0', 'b2b1', 'b2b3', 'b2b4', 'b2b5', 'b2b8', 'b2c2', 'b2d2', 'b2e2', 'b2f2', 'b2g2', 'b2h2', 'b2i2']);
+  });
+
+  it('should not let the Kings face each other', () => {
+      // d0 would face the Black King on d9
+      expect(moveList('3k5/9/9/9/9/9/9/9/9/4K4 w - - 0 1')).toEqual(['e0e1', 'e0f0']);
+      // The Pawn between the Kings may not step aside
+      expect(moveList('4k4/9/9/4P4/9/9/9/9/9/4K4 w - - 0 1')).toEqual(['e0d0', 'e0e1', 'e0f0', 'e6e7']);
+  });
+
+  it('should compare against engine perft output', () => {
+      const output = 'info string NNUE evaluation\nh2e2: 44\nb0c2: 44\n\nNodes searched: 88\n';
+      const theirs = parsePerftOutput(output);
+      expect(theirs).toEqual({ divide: { h2e2: 44, b0c2: 44 }, nodes: 88 });
+      expect(comparePerftDivide({ h2e2: 44, h0g2: 44 }, theirs.divide)).toEqual([
+        { move: 'b0c2', ours: undefined, theirs: 44 },
+        { move: 'h0g2', ours: 44, theirs: undefined }
+      ]);
+  });
+});
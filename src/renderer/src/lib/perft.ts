@@ -0,0 +1,79 @@
+import { Position, decodeMove, toUciMove } from './xiangqi';
+
+// Perft: counts the leaf nodes of the legal move tree to a fixed depth. The
+// counts are compared against published reference values (and optionally
+// against Pikafish's `go perft`) to catch move generation bugs.
+
+function countNodes(position: Position, depth: number): number {
+  const moves = position.generateLegalMoves();
+  if (depth <= 1) return depth === 1 ? moves.length : 1;
+  let nodes = 0;
+  for (const move of moves) {
+    position.makeMove(move);
+    nodes += countNodes(position, depth - 1);
+    position.unmakeMove();
+  }
+  return nodes;
+}
+
+/**
+ * Counts the positions reachable from `fen` in exactly `depth` plies.
+ */
+export function perft(fen: string, depth: number): number {
+  return countNodes(Position.fromFen(fen), depth);
+}
+
+/**
+ * Perft split by first move: UCI move -> node count (the "divide" output).
+ */
+export function perftDivide(fen: string, depth: number): Record<string, number> {
+  const position = Position.fromFen(fen);
+  const divide: Record<string, number> = {};
+  for (const move of position.generateLegalMoves()) {
+    const { from, to } = decodeMove(move);
+    position.makeMove(move);
+    divide[toUciMove(from, to)] = countNodes(position, depth - 1);
+    position.unmakeMove();
+  }
+  return divide;
+}
+
+/**
+ * Formats a divide like the engines do: `h2e2: 1234` lines, sorted, then the total.
+ */
+export function formatPerftDivide(divide: Record<string, number>): string {
+  const lines = Object.keys(divide).sort().map(move => `${move}: ${divide[move]}`);
+  const total = Object.values(divide).reduce((sum, n) => sum + n, 0);
+  return [...lines, '', `Nodes searched: ${total}`].join('\n');
+}
+
+/**
+ * Parses the output of an engine's `go perft` command (Pikafish/Stockfish style).
+ */
+export function parsePerftOutput(output: string): { divide: Record<string, number>, nodes: number | null } {
+  const divide: Record<string, number> = {};
+  let nodes: number | null = null;
+  for (const line of output.split(/\r?\n/)) {
+    const move = line.match(/^\s*([a-i]\d[a-i]\d):\s*(\d+)\s*$/);
+    if (move) divide[move[1]] = parseInt(move[2]);
+    const total = line.match(/^\s*Nodes searched:\s*(\d+)/);
+    if (total) nodes = parseInt(total[1]);
+  }
+  return { divide, nodes };
+}
+
+export interface PerftMismatch {
+  move: string;
+  ours?: number; // Missing: we do not generate the move
+  theirs?: number; // Missing: the reference does not generate it
+}
+
+/**
+ * Lists the first moves whose counts differ between two divides.
+ */
+export function comparePerftDivide(ours: Record<string, number>, theirs: Record<string, number>): PerftMismatch[] {
+  const moves = new Set([...Object.keys(ours), ...Object.keys(theirs)]);
+  return [...moves].sort()
+    .filter(move => ours[move] !== theirs[move])
+    .map(move => ({ move, ours: ours[move], theirs: theirs[move] }));
+}
@@ -0,0 +1,81 @@
+import { describe, it, expect } from 'vitest';
+import { START_FEN, fromUciMove, toUciMove } from './xiangqi';
+import { createGameRecord, getMainlinePositions } from './game';
+import { parsePgn, splitPgnGames, writePgn } from './pgn';
+
+const uci = (m: { from: { row: number, col: number }, to: { row: number, col: number } }) => toUciMove(m.from, m.to);
+
+describe('PGN', () => {
+  const sample = `[Game "Chinese Chess"]
+[Event "Test \\"Cup\\""]
+[Red "Red Player"]
+[Black "Black Player"]
+[Result "1-0"]
+[Variant "xiangqi"]
+[Format "ICCS"]
+
+{Opening} 1. H2-E2 {Central Cannon} H9-G7 (1... H7-E7 2. H0-G2) 2. H0-G2 $1 I9-H9 1-0
+`;
+
+  it('should read tags, comments, variations and the result', () => {
+      const record = parsePgn(sample);
+      expect(record.tags.Event).toBe('Test "Cup"');
+      expect(record.tags.Red).toBe('Red Player');
+      expect(record.result).toBe('1-0');
+      expect(record.startFen).toBe(START_FEN);
+      expect(record.comment).toBe('Opening');
+      expect(record.moves.map(n => uci(n.move))).toEqual(['h2e2', 'h9g7', 'h0g2', 'i9h9']);
+      expect(record.moves[0].comment).toBe('Central Cannon');
+      expect(record.moves[1].variations?.[0].map(n => uci(n.move))).toEqual(['h7e7', 'h0g2']);
+  });
+
+  it('should split a file of several games', () => {
+      const games = splitPgnGames(`${sample}\n[Event "Second"]\n[Result "0-1"]\n\n1. C3-C4 0-1\n`);
+      expect(games).toHaveLength(2);
+      expect(parsePgn(games[0]).tags.Event).toBe('Test "Cup"');
+      expect(parsePgn(games[1])).toMatchObject({ tags: { Event: 'Second' }, result: '0-1' });
+      expect(splitPgnGames(sample)).toHaveLength(1);
+  });
+
+  it('should read Chinese and WXF move text', () => {
+      const chinese = parsePgn('[Format "Chinese"]\n\n1. 炮二平五 马８进７ 2. 马二进三 *');
+      expect(chinese.moves.map(n => uci(n.move))).toEqual(['h2e2', 'h9g7', 'h0g2']);
+
+      const wxf = parsePgn('[Format "WXF"]\n\n1. C2=5 H8+7 2. H2+3 *');
+      expect(wxf.moves.map(n => uci(n.move))).toEqual(['h2e2', 'h9g7', 'h0g2']);
+  });
+
+  it('should start from the FEN tag and accept White as Red', () => {
+      const fen = "4k4/9/9/9/9/9/9/9/4R4/5K3 b - - 0 1";
+      const record = parsePgn(`[White "Someone"]\n[FEN "${fen}"]\n\n1... E9-D9 2. E1-D1 *`);
+      expect(record.tags.Red).toBe('Someone');
+      expect(record.startFen).toBe(fen);
+      expect(getMainlinePositions(record).map(p => p.fen)[1]).toBe("3k5/9/9/9/9/9/9/9/4R4/5K3 w - - 1 2");
+  });
+
+  it('should report the move that cannot be played', () => {
+      expect(() => parsePgn('1. H2-E2 H9-G7 2. A0-A5 *')).toThrow('move 3');
+  });
+
+  it('should write a game that reads back identically', () => {
+      const record = parsePgn(sample);
+      for (const style of ['iccs', 'chinese', 'wxf'] as const) {
+        const text = writePgn(record, style);
+        expect(text).toContain('[Variant "xiangqi"]');
+        const again = parsePgn(text);
+        expect(again.moves).toEqual(record.moves);
+        expect(again.comment).toBe(record.comment);
+        expect(again.result).toBe('1-0');
+        expect(again.tags.Event).toBe('Test "Cup"');
+      }
+  });
+
+  it('should write move numbers for Black to move and the FEN tag', () => {
+      const fen = "4k4/9/9/9/9/9/9/9/4R4/5K3 b - - 0 5";
+      const record = createGameRecord(fen, [fromUciMove('e9d9'), fromUciMove('e1d1')]);
+      const text = writePgn(record);
+      expect(text).toContain(`[FEN "${fen}"]`);
+      expect(text).toContain('[SetUp "1"]');
+      expect(text).toContain('5... E9-D9 6. E1-D1 *');
+  });
+});
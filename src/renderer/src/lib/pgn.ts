@@ -0,0 +1,236 @@
+import { START_FEN, NotationStyle, parseFen, applyMoveToFen, formatMove, parseNotatedMove } from './xiangqi';
+import { GameNode, GameRecord, GameResult } from './game';
+
+// Xiangqi dialect of PGN. Tags follow the usual roster with Red/Black instead
+// of White/Black (White is still accepted on import), plus:
+//   [Variant "xiangqi"]      - marks the game for generic PGN tools
+//   [FEN "..."]               - non-standard starting position
+//   [Format "ICCS"]           - notation of the move text: ICCS, Chinese or WXF
+// Move text may contain {comments}, ; line comments, (variations), $NAGs and a result.
+
+const TAG_ORDER = ['Game', 'Event', 'Site', 'Date', 'Round', 'Red', 'Black', 'Result'];
+const RESULTS: GameResult[] = ['1-0', '0-1', '1/2-1/2', '*'];
+const FORMAT_NAMES: Record<NotationStyle, string> = { iccs: 'ICCS', chinese: 'Chinese', wxf: 'WXF' };
+const LINE_WIDTH = 80;
+
+type Token =
+  | { type: 'comment', text: string }
+  | { type: 'open' }
+  | { type: 'close' }
+  | { type: 'result', result: GameResult }
+  | { type: 'move', text: string };
+
+function tokenizeMovetext(text: string): Token[] {
+  const tokens: Token[] = [];
+  const pattern = /\{([^}]*)\}|;([^\n]*)|([()])|\$\d+|([^\s{}();]+)/g;
+  let match: RegExpExecArray | null;
+  while ((match = pattern.exec(text)) !== null) {
+    const [, block, line, paren, word] = match;
+    if (block !== undefined || line !== undefined) {
+      tokens.push({ type: 'comment', text: (block ?? line).trim() });
+    } else if (paren) {
+      tokens.push({ type: paren === '(' ? 'open' : 'close' });
+    } else if (word) {
+      if (RESULTS.includes(word as GameResult)) {
+        tokens.push({ type: 'result', result: word as GameResult });
+        continue;
+      }
+      // Strip move numbers ("1.", "1...", "12.H2-E2") and annotation marks
+      const move = word.replace(/^\d+\.+/, '').replace(/[!?]+$/, '');
+      if (move) tokens.push({ type: 'move', text: move });
+    }
+  }
+  return tokens;
+}
+
+function appendComment(existing: string | undefined, text: string): string {
+  return existing ? `${existing} ${text}` : text;
+}
+
+/**
+ * Splits a PGN file holding several games into the text of each. A tag line
+ * after move text starts the next game.
+ */
+export function splitPgnGames(text: string): string[] {
+  const games: string[] = [];
+  let current: string[] = [];
+  let inMovetext = false;
+  for (const line of text.split(/\r?\n/)) {
+    const isTag = /^\s*\[\w+\s+"/.test(line);
+    if (isTag && inMovetext) {
+      games.push(current.join('\n'));
+      current = [];
+      inMovetext = false;
+    } else if (!isTag && line.trim()) {
+      inMovetext = true;
+    }
+    current.push(line);
+  }
+  if (current.some(line => line.trim())) games.push(current.join('\n'));
+  return games;
+}
+
+/**
+ * Parses the first game of a PGN file into a game record.
+ * Throws when a move cannot be played from the position reached.
+ */
+export function parsePgn(text: string): GameRecord {
+  const tags: Record<string, string> = {};
+  const tagPattern = /^\s*\[(\w+)\s+"((?:[^"\\]|\\.)*)"\s*\]\s*$/;
+  const lines = text.split(/\r?\n/);
+  let index = 0;
+  for (; index < lines.length; index++) {
+    const line = lines[index];
+    if (!line.trim()) {
+      if (Object.keys(tags).length > 0) break;
+      continue;
+    }
+    const match = line.match(tagPattern);
+    if (!match) break;
+    tags[match[1]] = match[2].replace(/\\(["\\])/g, '$1');
+  }
+  if (tags.White !== undefined && tags.Red === undefined) {
+    tags.Red = tags.White;
+    delete tags.White;
+  }
+
+  const startFen = tags.FEN || START_FEN;
+  const record: GameRecord = { tags, startFen, moves: [], result: (tags.Result as GameResult) ?? '*' };
+  if (!RESULTS.includes(record.result)) record.result = '*';
+
+  const tokens = tokenizeMovetext(lines.slice(index).join('\n'));
+  let pos = 0;
+  let moveCount = 0;
+
+  // Parses moves from `fen` until the closing parenthesis of a variation (or the end)
+  const parseLine = (fen: string, isVariation: boolean): GameNode[] => {
+    const nodes: GameNode[] = [];
+    let current = fen;
+    let previous = fen;
+    let leadingComment: string | undefined;
+
+    while (pos < tokens.length) {
+      const token = tokens[pos++];
+      if (token.type === 'close') {
+        if (isVariation) break;
+        continue;
+      }
+      if (token.type === 'result') {
+        if (!isVariation) record.result = token.result;
+        continue;
+      }
+      if (token.type === 'comment') {
+        if (!token.text) continue;
+        const last = nodes[nodes.length - 1];
+        if (last) last.comment = appendComment(last.comment, token.text);
+        else leadingComment = appendComment(leadingComment, token.text);
+        continue;
+      }
+      if (token.type === 'open') {
+        const last = nodes[nodes.length - 1];
+        const variation = parseLine(previous, true);
+        if (last && variation.length > 0) (last.variations ??= []).push(variation);
+        continue;
+      }
+
+      const { board, turn } = parseFen(current);
+      let move;
+      try {
+        move = parseNotatedMove(board, token.text, turn);
+      } catch (e: any) {
+        throw new Error(`棋谱第${moveCount + 1}步无法解析 (Cannot read move ${moveCount + 1}): ${e.message}`);
+      }
+      moveCount++;
+      const node: GameNode = { move };
+      if (leadingComment !== undefined && isVariation && nodes.length === 0) {
+        node.comment = leadingComment;
+        leadingComment = undefined;
+      }
+      nodes.push(node);
+      previous = current;
+      current = applyMoveToFen(current, move);
+    }
+
+    if (!isVariation && leadingComment !== undefined) record.comment = leadingComment;
+    return nodes;
+  };
+
+  record.moves = parseLine(startFen, false);
+  return record;
+}
+
+function escapeTag(value: string): string {
+  return value.replace(/\\/g, '\\\\').replace(/"/g, '\\"');
+}
+
+function wrapWords(text: string): string {
+  const lines: string[] = [];
+  let line = '';
+  for (const word of text.split(' ')) {
+    if (line && line.length + word.length + 1 > LINE_WIDTH) {
+      lines.push(line);
+      line = word;
+    } else {
+      line = line ? `${line} ${word}` : word;
+    }
+  }
+  if (line) lines.push(line);
+  return lines.join('\n');
+}
+
+/**
+ * Writes a game record as PGN, with the move text in the given notation.
+ */
+export function writePgn(record: GameRecord, style: NotationStyle = 'iccs'): string {
+  const tags: Record<string, string> = {
+    Game: 'Chinese Chess',
+    Event: '?',
+    Site: '?',
+    Date: '????.??.??',
+    Round: '?',
+    Red: '?',
+    Black: '?',
+    ...record.tags,
+    Result: record.result,
+    Variant: 'xiangqi',
+    Format: FORMAT_NAMES[style]
+  };
+  delete tags.FEN;
+  delete tags.SetUp;
+  if (record.startFen !== START_FEN) {
+    tags.SetUp = '1';
+    tags.FEN = record.startFen;
+  }
+
+  const keys = [...TAG_ORDER, ...Object.keys(tags).filter(key => !TAG_ORDER.includes(key))];
+  const header = keys.map(key => `[${key} "${escapeTag(tags[key])}"]`).join('\n');
+
+  const writeLine = (nodes: GameNode[], fen: string): string[] => {
+    const words: string[] = [];
+    let current = fen;
+    let needsNumber = true;
+    for (const node of nodes) {
+      const { board, turn, fullmoveNumber } = parseFen(current);
+      if (turn === 'w') words.push(`${fullmoveNumber}.`);
+      else if (needsNumber) words.push(`${fullmoveNumber}...`);
+      words.push(formatMove(board, node.move, style));
+      needsNumber = false;
+
+      if (node.comment) {
+        words.push(`{${node.comment.replace(/}/g, ')')}}`);
+        needsNumber = true;
+      }
+      for (const variation of node.variations ?? []) {
+        words.push(`(${writeLine(variation, current).join(' ')})`);
+        needsNumber = true;
+      }
+      current = applyMoveToFen(current, node.move);
+    }
+    return words;
+  };
+
+  const words = writeLine(record.moves, record.startFen);
+  if (record.comment) words.unshift(`{${record.comment.replace(/}/g, ')')}}`);
+  words.push(record.result);
+  return `${header}\n\n${wrapWords(words.join(' '))}\n`;
+}
@@ -0,0 +1,85 @@
+import { describe, it, expect } from 'vitest';
+import { parseFen, generateFen, makeMove, Move } from './xiangqi';
+import { classifyMove, findRepetitionCycle, judgeRepetition, HistoryEntry } from './rules';
+
+// Plays the cycle of moves `times` times from the starting FEN
+const playCycle = (fen: string, cycle: Move[], times: number) => {
+  const history: HistoryEntry[] = [];
+  let { board, turn } = parseFen(fen);
+  for (let i = 0; i < times; i++) {
+    for (const move of cycle) {
+      history.push({ fen: generateFen(board, turn), move });
+      board = makeMove(board, move);
+      turn = turn === 'w' ? 'b' : 'w';
+    }
+  }
+  return { history, currentFen: generateFen(board, turn) };
+};
+
+const mv = (fr: number, fc: number, tr: number, tc: number): Move => ({ from: { row: fr, col: fc }, to: { row: tr, col: tc } });
+
+describe('Repetition rules', () => {
+  // Red Rook checks the Black King from file 3 and 4 while the King steps back and forth
+  const checkFen = "3k5/9/9/9/9/9/9/9/9/3R1K3 b - - 0 1";
+  const checkCycle = [mv(0, 3, 0, 4), mv(9, 3, 9, 4), mv(0, 4, 0, 3), mv(9, 4, 9, 3)];
+
+  // Red Rook follows an unprotected Black Cannon between files 1 and 9
+  const chaseFen = "4k4/9/c8/9/9/R8/9/9/9/3K5 b - - 0 1";
+  const chaseCycle = [mv(2, 0, 2, 8), mv(5, 0, 5, 8), mv(2, 8, 2, 0), mv(5, 8, 5, 0)];
+
+  // Both Kings shuffle
+  const idleFen = "3k5/9/9/9/9/9/9/9/9/5K3 w - - 0 1";
+  const idleCycle = [mv(9, 5, 8, 5), mv(0, 3, 1, 3), mv(8, 5, 9, 5), mv(1, 3, 0, 3)];
+
+  it('should classify checks, chases and idle moves', () => {
+      const checkBoard = parseFen("3k5/9/9/9/9/9/9/9/9/4RK3 w - - 0 1").board;
+      expect(classifyMove(checkBoard, mv(9, 4, 9, 3))).toBe('check');
+
+      const chaseBoard = parseFen("4k4/9/8c/9/9/R8/9/9/9/3K5 w - - 0 1").board;
+      expect(classifyMove(chaseBoard, mv(5, 0, 5, 8))).toBe('chase');
+
+      const idleBoard = parseFen(idleFen).board;
+      expect(classifyMove(idleBoard, mv(9, 5, 8, 5))).toBe('idle');
+  });
+
+  it('should not count attacking a protected piece of lower value as a chase', () => {
+      // Black Cannon at (2, 8) is protected by the Black Rook at (0, 8)
+      const board = parseFen("4k3r/9/8c/9/9/R8/9/9/9/3K5 w - - 0 1").board;
+      expect(classifyMove(board, mv(5, 0, 5, 8))).toBe('idle');
+  });
+
+  it('should only judge after the third occurrence', () => {
+      const once = playCycle(checkFen, checkCycle, 1);
+      expect(findRepetitionCycle(once.history, once.currentFen)).toBeNull();
+      expect(judgeRepetition(once.history, once.currentFen)).toBeNull();
+
+      const twice = playCycle(checkFen, checkCycle, 2);
+      expect(findRepetitionCycle(twice.history, twice.currentFen)).toBe(0);
+  });
+
+  it('should rule perpetual check as a loss', () => {
+      const { history, currentFen } = playCycle(checkFen, checkCycle, 2);
+      const verdict = judgeRepetition(history, currentFen, 'asian');
+      expect(verdict?.result).toBe('loss');
+      expect(verdict?.loser).toBe('w');
+      expect(verdict?.reason).toContain('长将');
+  });
+
+  it('should rule perpetual chase as a loss', () => {
+      const { history, currentFen } = playCycle(chaseFen, chaseCycle, 2);
+      const verdict = judgeRepetition(history, currentFen, 'asian');
+      expect(verdict?.result).toBe('loss');
+      expect(verdict?.loser).toBe('w');
+      expect(verdict?.reason).toContain('长捉');
+  });
+
+  it('should rule idle repetition as a draw', () => {
+      const { history, currentFen } = playCycle(idleFen, idleCycle, 2);
+      expect(judgeRepetition(history, currentFen)?.result).toBe('draw');
+  });
+
+  it('should rule every repetition as a draw with casual rules', () => {
+      const { history, currentFen } = playCycle(checkFen, checkCycle, 2);
+      expect(judgeRepetition(history, currentFen, 'casual')?.result).toBe('draw');
+  });
+});
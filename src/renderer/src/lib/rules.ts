@@ -0,0 +1,157 @@
+import { BoardState, Move, PieceColor, PieceType, parseFen, makeMove, isInCheck, getLegalMovesFrom, generateLegalMoves, hashFen } from './xiangqi';
+
+// Long check (长将) and long chase (长捉) adjudication for repeated positions.
+//
+// A repetition is judged once the current position (board + side to move) has
+// occurred three times. Every move of the cycle is classified per side:
+//   check - gives check
+//   chase - creates a new attack on an unprotected piece, or on a piece worth
+//           more than the attacker (e.g. Knight attacking Rook)
+//   idle  - anything else
+// A side whose every move in the cycle is a check or a chase is violating the
+// rules. If only one side violates, it loses; if both do, perpetual check is
+// judged worse than perpetual chase, otherwise the game is drawn.
+
+export type RuleSet = 'asian' | 'chinese' | 'casual';
+export type MoveKind = 'check' | 'chase' | 'idle';
+
+export interface HistoryEntry {
+  fen: string; // Position before the move
+  move: Move;
+}
+
+export interface RepetitionVerdict {
+  result: 'loss' | 'draw';
+  loser?: PieceColor;
+  reason: string;
+  kinds: Record<PieceColor, MoveKind[]>;
+}
+
+interface RuleSetOptions {
+  judgeChecksAndChases: boolean;
+  crossedPawnIsChaseTarget: boolean; // Whether attacking a Pawn across the river counts as a chase
+}
+
+const RULE_SETS: Record<RuleSet, RuleSetOptions> = {
+  asian: { judgeChecksAndChases: true, crossedPawnIsChaseTarget: true },
+  chinese: { judgeChecksAndChases: true, crossedPawnIsChaseTarget: false },
+  casual: { judgeChecksAndChases: false, crossedPawnIsChaseTarget: false }
+};
+
+export const RULE_SET_NAMES: Record<RuleSet, string> = {
+  asian: '亚洲规则 (Asian)',
+  chinese: '中国规则 (Chinese)',
+  casual: '重复即和 (Repetition draws)'
+};
+
+const PIECE_VALUES: Record<PieceType, number> = { k: 100, r: 9, c: 4.5, n: 4, a: 2, b: 2, p: 1 };
+
+const REPETITIONS_TO_JUDGE = 3;
+
+function captureKeys(board: BoardState, color: PieceColor, movedFrom?: { row: number, col: number }, movedTo?: { row: number, col: number }): Set<string> {
+  const keys = new Set<string>();
+  for (let row = 0; row < 10; row++) {
+    for (let col = 0; col < 9; col++) {
+      if (board[row][col]?.color !== color) continue;
+      // Track the moved piece under its destination square so its attacks compare before/after the move
+      const isMoved = movedFrom && movedFrom.row === row && movedFrom.col === col;
+      const attacker = isMoved && movedTo ? movedTo : { row, col };
+      for (const m of getLegalMovesFrom(board, { row, col })) {
+        if (board[m.to.row][m.to.col]) keys.add(`${attacker.row},${attacker.col}>${m.to.row},${m.to.col}`);
+      }
+    }
+  }
+  return keys;
+}
+
+function isProtected(board: BoardState, square: { row: number, col: number }, attackerSquare: { row: number, col: number }): boolean {
+  const defender = board[square.row][square.col];
+  if (!defender) return false;
+  const afterCapture = makeMove(board, { from: attackerSquare, to: square });
+  return generateLegalMoves(afterCapture, defender.color).some(m => m.to.row === square.row && m.to.col === square.col);
+}
+
+/**
+ * Classifies a single move as check, chase or idle.
+ */
+export function classifyMove(board: BoardState, move: Move, ruleSet: RuleSet = 'asian'): MoveKind {
+  const piece = board[move.from.row][move.from.col];
+  if (!piece) return 'idle';
+  const opponent: PieceColor = piece.color === 'w' ? 'b' : 'w';
+  const nextBoard = makeMove(board, move);
+
+  if (isInCheck(nextBoard, opponent)) return 'check';
+
+  const options = RULE_SETS[ruleSet];
+  const before = captureKeys(board, piece.color, move.from, move.to);
+  const after = captureKeys(nextBoard, piece.color);
+
+  for (const key of after) {
+    if (before.has(key)) continue;
+    const [attackerStr, targetStr] = key.split('>');
+    const [ar, ac] = attackerStr.split(',').map(Number);
+    const [tr, tc] = targetStr.split(',').map(Number);
+    const attacker = nextBoard[ar][ac]!;
+    const target = nextBoard[tr][tc]!;
+
+    // Kings and Pawns may attack freely, and attacking the King is a check
+    if (attacker.type === 'k' || attacker.type === 'p' || target.type === 'k') continue;
+    if (target.type === 'p') {
+      const crossed = target.color === 'w' ? tr <= 4 : tr >= 5;
+      if (!crossed || !options.crossedPawnIsChaseTarget) continue;
+    }
+
+    if (PIECE_VALUES[target.type] > PIECE_VALUES[attacker.type]) return 'chase';
+    if (!isProtected(nextBoard, { row: tr, col: tc }, { row: ar, col: ac })) return 'chase';
+  }
+
+  return 'idle';
+}
+
+/**
+ * Returns the index into `history` where the repeated cycle starts, or null if
+ * the current position has not occurred often enough.
+ */
+export function findRepetitionCycle(history: HistoryEntry[], currentFen: string, occurrences = REPETITIONS_TO_JUDGE): number | null {
+  const key = hashFen(currentFen);
+  let matches = 0;
+  for (let i = history.length - 1; i >= 0; i--) {
+    if (hashFen(history[i].fen) === key && ++matches === occurrences - 1) return i;
+  }
+  return null;
+}
+
+/**
+ * Adjudicates a repetition of the current position according to the rule set.
+ * Returns null when there is nothing to judge yet.
+ */
+export function judgeRepetition(history: HistoryEntry[], currentFen: string, ruleSet: RuleSet = 'asian'): RepetitionVerdict | null {
+  const start = findRepetitionCycle(history, currentFen);
+  if (start === null) return null;
+
+  const kinds: Record<PieceColor, MoveKind[]> = { w: [], b: [] };
+  const options = RULE_SETS[ruleSet];
+
+  for (const entry of history.slice(start)) {
+    const { board, turn } = parseFen(entry.fen);
+    kinds[turn].push(options.judgeChecksAndChases ? classifyMove(board, entry.move, ruleSet) : 'idle');
+  }
+
+  const isViolating = (color: PieceColor) => kinds[color].length > 0 && kinds[color].every(k => k !== 'idle');
+  const isPerpetualCheck = (color: PieceColor) => kinds[color].length > 0 && kinds[color].every(k => k === 'check');
+  const describe = (color: PieceColor) => isPerpetualCheck(color) ? '长将 (Perpetual check)' : '长捉 (Perpetual chase)';
+
+  const redViolates = isViolating('w');
+  const blackViolates = isViolating('b');
+
+  if (redViolates && !blackViolates) return { result: 'loss', loser: 'w', reason: describe('w'), kinds };
+  if (blackViolates && !redViolates) return { result: 'loss', loser: 'b', reason: describe('b'), kinds };
+  if (redViolates && blackViolates) {
+    const redChecks = isPerpetualCheck('w');
+    const blackChecks = isPerpetualCheck('b');
+    if (redChecks && !blackChecks) return { result: 'loss', loser: 'w', reason: describe('w'), kinds };
+    if (blackChecks && !redChecks) return { result: 'loss', loser: 'b', reason: describe('b'), kinds };
+    return { result: 'draw', reason: '双方均违例 (Both sides violate)', kinds };
+  }
+  return { result: 'draw', reason: '重复局面 (Repetition)', kinds };
+}
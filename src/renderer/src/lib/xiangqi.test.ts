@@ -1,5 +1,5 @@
 import { describe, it, expect } from 'vitest';
-import { validateFen, START_FEN, validateMove, parseFen } from './xiangqi';
+import { validateFen, validatePosition, START_FEN, validateMove, parseFen, generateLegalMoves, isLegalMove, getLegalMovesFrom, isInCheck, isCheckmate, isStalemate, getGameStatus, computeZobristHash, updateZobristHash, hashFen, makeMove, fromUciMove, generateFen, applyMoveToFen, NATURAL_MOVE_LIMIT, toUciPositionCommand, parseChineseMove, parseChineseMoves, toUciMove, getChineseMoveNotation, getWxfMoveNotation, parseWxfMove, formatMove, Position, encodeMove, decodeMove, mirrorHorizontal, swapColors, canonicalizeFen, transformUciMove } from './xiangqi';
 
 describe('Xiangqi Validation Logic', () => {
   
@@ -125,6 +125,43 @@ describe('Xiangqi Validation Logic', () => {
   });
 });
 
+describe('validatePosition', () => {
+  it('should report nothing for the starting position', () => {
+    expect(validatePosition(START_FEN)).toEqual([]);
+  });
+
+  it('should list every problem with its squares instead of stopping at the first', () => {
+    // Red Advisor off the diagonals, Black Bishop off its points, three Red Rooks, no Black King
+    const issues = validatePosition('9/9/3b5/9/9/9/9/9/3A5/RR2K3R w - - 0 1');
+    expect(issues.map(i => i.code)).toEqual(['piece-misplaced', 'piece-misplaced', 'too-many-pieces', 'king-missing']);
+    expect(issues[0]).toMatchObject({ squares: [{ row: 2, col: 3 }], piece: { type: 'b', color: 'b' } });
+    expect(issues[0].message).toContain('黑象位置错误');
+    expect(issues[1].message).toContain('Advisor off the palace diagonals');
+    expect(issues[2].squares).toEqual([{ row: 9, col: 0 }, { row: 9, col: 1 }, { row: 9, col: 8 }]);
+    expect(issues[3].message).toBe('缺少黑将 (Black King missing)');
+  });
+
+  it('should reject two uncrossed Pawns on one file', () => {
+    const issues = validatePosition('3k5/9/9/9/9/4P4/4P4/9/9/5K3 w - - 0 1');
+    expect(issues).toHaveLength(1);
+    expect(issues[0]).toMatchObject({ code: 'pawns-same-file', squares: [{ row: 5, col: 4 }, { row: 6, col: 4 }] });
+    expect(validatePosition('3k5/9/4P4/4P4/9/9/9/9/9/5K3 w - - 0 1')).toEqual([]);
+  });
+
+  it('should reject the side not to move being in check', () => {
+    // Red to move, but the Red Rook already attacks the Black King
+    const issues = validatePosition('3k5/9/9/9/9/9/9/9/9/3R1K3 w - - 0 1');
+    expect(issues.map(i => i.code)).toEqual(['opponent-in-check']);
+    expect(issues[0].squares).toEqual([{ row: 0, col: 3 }]);
+    expect(validatePosition('3k5/9/9/9/9/9/9/9/9/3R1K3 b - - 0 1')).toEqual([]);
+  });
+
+  it('should mark both Kings when they face each other', () => {
+    expect(validatePosition('4k4/9/9/9/9/9/9/9/9/4K4 w - - 0 1')[0].squares).toEqual([{ row: 9, col: 4 }, { row: 0, col: 4 }]);
+    expect(validatePosition('bad')[0].code).toBe('invalid-fen');
+  });
+});
+
 describe('validateMove', () => {
   const getBoard = (fen: string) => parseFen(fen).board;
 
@@ -314,3 +351,419 @@ describe('validateMove', () => {
       expect(validateMove(board2, { from: { row: 4, col: 0 }, to: { row: 4, col: 1 } }).valid).toBe(true);
   });
 });
+
+describe('generateLegalMoves', () => {
+  const getBoard = (fen: string) => parseFen(fen).board;
+
+  it('should generate 44 moves in the starting position', () => {
+      expect(generateLegalMoves(getBoard(START_FEN), 'w')).toHaveLength(44);
+      expect(generateLegalMoves(getBoard(START_FEN), 'b')).toHaveLength(44);
+  });
+
+  it('should not move a piece pinned against its own King', () => {
+      // Red Rook at (5, 4) shields the Red King from the Black Rook on the same file
+      const fen = "3k5/9/9/4r4/9/4R4/9/9/9/4K4 w - - 0 1";
+      const board = getBoard(fen);
+
+      expect(isLegalMove(board, { from: { row: 5, col: 4 }, to: { row: 5, col: 0 } })).toBe(false);
+      expect(isLegalMove(board, { from: { row: 5, col: 4 }, to: { row: 3, col: 4 } })).toBe(true);
+
+      const result = validateMove(board, { from: { row: 5, col: 4 }, to: { row: 5, col: 0 } });
+      expect(result.valid).toBe(false);
+      expect(result.error).toContain('不能送将');
+  });
+
+  it('should only allow moves that resolve a check', () => {
+      // Black Cannon checks the Red King through the Red Pawn screen
+      const fen = "3k5/9/9/9/4c4/9/4P4/9/9/3AK4 w - - 0 1";
+      const moves = generateLegalMoves(getBoard(fen), 'w');
+
+      expect(moves.length).toBeGreaterThan(0);
+      for (const move of moves) {
+          expect(validateMove(getBoard(fen), move).valid).toBe(true);
+      }
+      // Advancing the screen pawn keeps the check
+      expect(moves.some(m => m.from.row === 6 && m.from.col === 4)).toBe(false);
+  });
+
+  it('should respect blocked Knight legs and Cannon screens', () => {
+      const board = getBoard(START_FEN);
+      // Knight at (9, 1): (8, 3) is blocked by the Bishop on its leg at (9, 2)
+      expect(getLegalMovesFrom(board, { row: 9, col: 1 }).map(m => m.to)).toEqual(
+        expect.arrayContaining([{ row: 7, col: 0 }, { row: 7, col: 2 }])
+      );
+      expect(getLegalMovesFrom(board, { row: 9, col: 1 })).toHaveLength(2);
+      // Cannon at (7, 1) captures the Knight at (0, 1) using the Black Cannon at (2, 1) as screen
+      expect(isLegalMove(board, { from: { row: 7, col: 1 }, to: { row: 0, col: 1 } })).toBe(true);
+  });
+
+  it('should agree with validateMove on every square', () => {
+      const fen = "r1ba1a3/4kn3/2n1b4/pNp1p1p1p/4c4/6P2/P1P2R2P/1CcC5/9/2BAKAB2 w - - 0 1";
+      const board = getBoard(fen);
+      const moves = generateLegalMoves(board, 'w');
+      let validCount = 0;
+      for (let fr = 0; fr < 10; fr++) {
+        for (let fc = 0; fc < 9; fc++) {
+          if (board[fr][fc]?.color !== 'w') continue;
+          for (let tr = 0; tr < 10; tr++) {
+            for (let tc = 0; tc < 9; tc++) {
+              if (validateMove(board, { from: { row: fr, col: fc }, to: { row: tr, col: tc } }).valid) validCount++;
+            }
+          }
+        }
+      }
+      expect(moves).toHaveLength(validCount);
+  });
+});
+
+describe('getGameStatus', () => {
+  const getBoard = (fen: string) => parseFen(fen).board;
+
+  it('should report the starting position as playing', () => {
+      expect(getGameStatus(START_FEN)).toEqual({ status: 'playing', turn: 'w' });
+  });
+
+  it('should detect check', () => {
+      // Black Rook on the King's file
+      const fen = "3k5/9/9/9/9/9/9/9/4r4/4K4 w - - 0 1";
+      expect(isInCheck(getBoard(fen), 'w')).toBe(true);
+      expect(isInCheck(getBoard(fen), 'b')).toBe(false);
+      expect(getGameStatus(fen).status).toBe('check');
+  });
+
+  it('should detect checkmate', () => {
+      // Rook check from e1, guarded by the Pawn; d0 faces the Black King and the other Rook covers f0
+      const fen = "3k5/9/9/9/5r3/9/9/4p4/4r4/4K4 w - - 0 1";
+      expect(validatePosition(fen)).toEqual([]);
+      expect(isCheckmate(getBoard(fen), 'w')).toBe(true);
+      expect(getGameStatus(fen)).toEqual({ status: 'checkmate', turn: 'w', winner: 'b' });
+  });
+
+  it('should detect checkmate by double cannon', () => {
+      const fen = "4k4/9/9/9/9/9/9/4C4/4C4/4K4 b - - 0 1";
+      expect(getGameStatus(fen).status).toBe('check');
+      // Black King at (0, 4) is boxed in by the Rooks on files 3 and 5
+      const mate = "4k4/9/9/3R1R3/9/9/9/4C4/4C4/4K4 b - - 0 1";
+      expect(getGameStatus(mate)).toEqual({ status: 'checkmate', turn: 'b', winner: 'w' });
+  });
+
+  it('should detect stalemate (no legal moves without check)', () => {
+      // Black King at (0, 3): (1, 3) is covered by the Rook, (0, 4) would face the Red King
+      const fen = "3k5/R8/9/9/9/9/9/9/9/4K4 b - - 0 1";
+      expect(isInCheck(getBoard(fen), 'b')).toBe(false);
+      expect(isStalemate(getBoard(fen), 'b')).toBe(true);
+      expect(getGameStatus(fen)).toEqual({ status: 'stalemate', turn: 'b', winner: 'w' });
+  });
+});
+
+describe('Zobrist hashing', () => {
+  it('should be stable and depend on the side to move', () => {
+      const { board } = parseFen(START_FEN);
+      expect(computeZobristHash(board, 'w')).toBe(hashFen(START_FEN));
+      expect(computeZobristHash(board, 'w')).not.toBe(computeZobristHash(board, 'b'));
+      expect(hashFen(START_FEN)).toBeLessThan(1n << 64n);
+  });
+
+  it('should match a full recomputation when updated incrementally (including captures)', () => {
+      // 炮二平五 马8进7 炮五进四 (captures the central Pawn) 士4进5
+      const moves = ['h2e2', 'h9g7', 'e2e6', 'd9e8'];
+      let { board, turn } = parseFen(START_FEN);
+      let hash = hashFen(START_FEN);
+      for (const uci of moves) {
+        const move = fromUciMove(uci);
+        hash = updateZobristHash(hash, board, move);
+        board = makeMove(board, move);
+        turn = turn === 'w' ? 'b' : 'w';
+        expect(hash).toBe(computeZobristHash(board, turn));
+      }
+  });
+
+  it('should give transpositions the same hash', () => {
+      const play = (moves: string[]) => {
+        let { board } = parseFen(START_FEN);
+        let hash = hashFen(START_FEN);
+        for (const uci of moves) {
+          const move = fromUciMove(uci);
+          hash = updateZobristHash(hash, board, move);
+          board = makeMove(board, move);
+        }
+        return hash;
+      };
+      expect(play(['h2e2', 'h9g7', 'h0g2', 'b9c7'])).toBe(play(['h0g2', 'b9c7', 'h2e2', 'h9g7']));
+  });
+});
+
+describe('FEN move counters', () => {
+  it('should round-trip the halfmove clock and fullmove number', () => {
+      const fen = "3k5/9/9/9/9/9/9/9/4R4/3RK4 b - - 37 52";
+      const { board, turn, halfmoveClock, fullmoveNumber } = parseFen(fen);
+      expect(halfmoveClock).toBe(37);
+      expect(fullmoveNumber).toBe(52);
+      expect(generateFen(board, turn, halfmoveClock, fullmoveNumber)).toBe(fen);
+      expect(generateFen(parseFen(START_FEN).board, 'w')).toBe(START_FEN);
+  });
+
+  it('should default missing counters', () => {
+      const { halfmoveClock, fullmoveNumber } = parseFen("rnbakabnr/9/1c5c1/p1p1p1p1p/9/9/P1P1P1P1P/1C5C1/9/RNBAKABNR w");
+      expect(halfmoveClock).toBe(0);
+      expect(fullmoveNumber).toBe(1);
+  });
+
+  it('should update the counters when applying moves', () => {
+      let fen = applyMoveToFen(START_FEN, fromUciMove('h2e2')); // 炮二平五
+      expect(fen.endsWith('b - - 1 1')).toBe(true);
+      fen = applyMoveToFen(fen, fromUciMove('h9g7')); // 马8进7
+      expect(fen.endsWith('w - - 2 2')).toBe(true);
+      fen = applyMoveToFen(fen, fromUciMove('e2e6')); // 炮五进四 captures
+      expect(fen.endsWith('b - - 0 2')).toBe(true);
+  });
+
+  it('should declare a draw at the natural move limit', () => {
+      const fen = `3k5/9/9/9/9/9/9/9/9/4K4 w - - ${NATURAL_MOVE_LIMIT} 80`;
+      expect(getGameStatus(fen).status).toBe('draw');
+      expect(getGameStatus(`3k5/9/9/9/9/9/9/9/9/4K4 w - - ${NATURAL_MOVE_LIMIT - 1} 80`).status).toBe('playing');
+  });
+});
+
+describe('toUciPositionCommand', () => {
+  it('should append the move list to the starting FEN', () => {
+      expect(toUciPositionCommand(START_FEN, [])).toBe(`position fen ${START_FEN}`);
+      expect(toUciPositionCommand(START_FEN, ['h2e2', 'h9g7'])).toBe(`position fen ${START_FEN} moves h2e2 h9g7`);
+  });
+});
+
+describe('parseChineseMove', () => {
+  const { board } = parseFen(START_FEN);
+  const uci = (m: { from: { row: number, col: number }, to: { row: number, col: number } }) => toUciMove(m.from, m.to);
+
+  it('should parse Red and Black moves from the start position', () => {
+      expect(uci(parseChineseMove(board, '炮二平五'))).toBe('h2e2');
+      expect(uci(parseChineseMove(board, '马8进7'))).toBe('h9g7');
+      expect(uci(parseChineseMove(board, '相三进五'))).toBe('g0e2');
+      expect(uci(parseChineseMove(board, '仕四进五'))).toBe('f0e1');
+      expect(uci(parseChineseMove(board, '兵七进一'))).toBe('c3c4');
+      expect(uci(parseChineseMove(board, '车9进1', 'b'))).toBe('i9i8');
+  });
+
+  it('should accept traditional glyphs and full-width digits', () => {
+      expect(uci(parseChineseMove(board, '傌二進三'))).toBe('h0g2');
+      expect(uci(parseChineseMove(board, '俥一進一'))).toBe('i0i1');
+      expect(uci(parseChineseMove(board, '馬２進３'))).toBe('b9c7');
+  });
+
+  it('should resolve front and rear pieces on the same file', () => {
+      // Two Red Rooks on file 5
+      const tandem = parseFen("4k4/9/9/9/4R4/9/9/4R4/9/3K5 w - - 0 1").board;
+      expect(uci(parseChineseMove(tandem, '前车平四'))).toBe('e5f5');
+      expect(uci(parseChineseMove(tandem, '后车退一'))).toBe('e2e1');
+  });
+
+  it('should reject unknown, illegal and ambiguous moves', () => {
+      expect(() => parseChineseMove(board, '炮二飞五')).toThrow('Unrecognized');
+      expect(() => parseChineseMove(board, '车一平二')).toThrow('Illegal');
+      expect(() => parseChineseMove(board, '前车进一')).toThrow('Illegal');
+      // Pawns stacked on two files need a file number as well
+      const twoFiles = parseFen("4k4/9/9/2P1P4/2P1P4/9/9/9/9/3K5 w - - 0 1").board;
+      expect(() => parseChineseMove(twoFiles, '前兵进一')).toThrow('Ambiguous');
+  });
+
+  it('should parse a numbered game record', () => {
+      const moves = parseChineseMoves(START_FEN, '1. 炮二平五 马8进7 2. 马二进三 车9平8');
+      expect(moves.map(uci)).toEqual(['h2e2', 'h9g7', 'h0g2', 'i9h9']);
+  });
+});
+
+describe('Chinese notation for pieces sharing a file', () => {
+  // Checks the notation of a move and that it parses back to the same move
+  const expectNotation = (fen: string, uci: string, notation: string) => {
+      const { board, turn } = parseFen(fen);
+      const move = fromUciMove(uci);
+      expect(getChineseMoveNotation(board, move)).toBe(notation);
+      expect(parseChineseMove(board, notation, turn)).toEqual(move);
+  };
+
+  it('should use 前/后 for two pieces', () => {
+      const fen = "4k4/9/9/9/4R4/9/9/4R4/9/3K5 w - - 0 1";
+      expectNotation(fen, 'e5f5', '前车平四');
+      expectNotation(fen, 'e2e1', '后车退一');
+  });
+
+  it('should use 前/中/后 for three pawns', () => {
+      const fen = "3k5/9/4P4/4P4/4P4/9/9/9/9/5K3 w - - 0 1";
+      expectNotation(fen, 'e7e8', '前兵进一');
+      expectNotation(fen, 'e6f6', '中兵平四');
+      expectNotation(fen, 'e5d5', '后兵平六');
+  });
+
+  it('should number four or five pawns from the front', () => {
+      const red = "3kP4/4P4/4P4/4P4/4P4/9/9/9/9/5K3 w - - 0 1";
+      expectNotation(red, 'e9f9', '一兵平四');
+      expectNotation(red, 'e8d8', '二兵平六');
+      expectNotation(red, 'e7f7', '三兵平四');
+      expectNotation(red, 'e6d6', '四兵平六');
+      expectNotation(red, 'e5d5', '五兵平六');
+
+      const black = "3k5/9/9/9/9/2p6/2p6/2p6/2p6/4K4 b - - 0 1";
+      expectNotation(black, 'c1d1', '1卒平4');
+      expectNotation(black, 'c2b2', '2卒平2');
+      expectNotation(black, 'c3d3', '3卒平4');
+      expectNotation(black, 'c4b4', '4卒平2');
+  });
+
+  it('should replace the piece name with the file number for pawns stacked on two files', () => {
+      const twoAndTwo = "3k5/9/9/2P3P2/2P3P2/9/9/9/9/5K3 w - - 0 1";
+      expectNotation(twoAndTwo, 'c6c7', '前七进一');
+      expectNotation(twoAndTwo, 'g5f5', '后三平四');
+
+      const threeAndTwo = "3k5/9/4P4/P3P4/P3P4/9/9/9/9/5K3 w - - 0 1";
+      expectNotation(threeAndTwo, 'e6f6', '中五平四');
+      expectNotation(threeAndTwo, 'e5d5', '后五平六');
+      expectNotation(threeAndTwo, 'a6a7', '前九进一');
+      expectNotation(threeAndTwo, 'a5b5', '后九平八');
+  });
+
+  it('should not prefix Advisors or Bishops sharing a file', () => {
+      const fen = "5k3/9/9/9/9/9/9/3A5/9/3AK4 w - - 0 1";
+      expectNotation(fen, 'd2e1', '仕六退五');
+      expectNotation(fen, 'd0e1', '仕六进五');
+  });
+
+  it('should reject a position prefix without a file when pawns are stacked on two files', () => {
+      const { board } = parseFen("3k5/9/9/2P3P2/2P3P2/9/9/9/9/5K3 w - - 0 1");
+      expect(() => parseChineseMove(board, '前兵进一')).toThrow('Ambiguous');
+      expect(() => parseChineseMove(board, '中七进一')).toThrow('Ambiguous');
+  });
+});
+
+describe('WXF notation', () => {
+  const expectWxf = (fen: string, uci: string, notation: string) => {
+      const { board, turn } = parseFen(fen);
+      const move = fromUciMove(uci);
+      expect(getWxfMoveNotation(board, move)).toBe(notation);
+      expect(parseWxfMove(board, notation, turn)).toEqual(move);
+  };
+
+  it('should write and parse opening moves for both sides', () => {
+      expectWxf(START_FEN, 'h2e2', 'C2=5');
+      expectWxf(START_FEN, 'h0g2', 'H2+3');
+      expectWxf(START_FEN, 'g0e2', 'E3+5');
+      expectWxf(START_FEN.replace(' w ', ' b '), 'h9g7', 'H8+7');
+      expectWxf(START_FEN.replace(' w ', ' b '), 'h7h0', 'C8+7');
+  });
+
+  it('should use +/- for tandem pieces and numbers for three or more pawns', () => {
+      const rooks = "4k4/9/9/9/4R4/9/9/4R4/9/3K5 w - - 0 1";
+      expectWxf(rooks, 'e5f5', '+R=4');
+      expectWxf(rooks, 'e2e1', '-R-1');
+
+      const pawns = "3k5/9/4P4/4P4/4P4/9/9/9/9/5K3 w - - 0 1";
+      expectWxf(pawns, 'e6f6', '2P=4');
+
+      const twoFiles = "3k5/9/9/2P3P2/2P3P2/9/9/9/9/5K3 w - - 0 1";
+      expectWxf(twoFiles, 'c6c7', '+7+1');
+      expectWxf(twoFiles, 'g5f5', '-3=4');
+  });
+
+  it('should accept lower case, B/N aliases and dots', () => {
+      const { board } = parseFen(START_FEN);
+      expect(parseWxfMove(board, 'c2.5', 'w')).toEqual(fromUciMove('h2e2'));
+      expect(parseWxfMove(board, 'N2+3', 'w')).toEqual(fromUciMove('h0g2'));
+      expect(parseWxfMove(board, 'B7+5', 'w')).toEqual(fromUciMove('c0e2'));
+      expect(() => parseWxfMove(board, 'R1=2', 'w')).toThrow('Illegal');
+      expect(() => parseWxfMove(board, 'X1=2', 'w')).toThrow('Unrecognized');
+  });
+
+  it('should format moves in every notation style', () => {
+      const { board } = parseFen(START_FEN);
+      const move = fromUciMove('h2e2');
+      expect(formatMove(board, move, 'chinese')).toBe('炮二平五');
+      expect(formatMove(board, move, 'wxf')).toBe('C2=5');
+      expect(formatMove(board, move, 'iccs')).toBe('H2-E2');
+  });
+});
+
+describe('Position', () => {
+  const FENS = [
+    START_FEN,
+    'r1ba1a3/4kn3/2n1b4/pNp1p1p1p/4c4/6P2/P1P2R2P/1CcC5/9/2BAKAB2 w - - 0 1',
+    '3k5/9/9/9/9/9/9/9/4C4/4K4 b - - 3 20'
+  ];
+
+  it('should round-trip FEN and BoardState', () => {
+      for (const fen of FENS) {
+        const position = Position.fromFen(fen);
+        expect(position.toFen()).toBe(fen);
+        expect(position.toBoardState()).toEqual(parseFen(fen).board);
+        expect(position.hash).toBe(hashFen(fen));
+      }
+  });
+
+  it('should generate the same legal moves as generateLegalMoves', () => {
+      for (const fen of FENS) {
+        const { board, turn } = parseFen(fen);
+        const expected = generateLegalMoves(board, turn).map(encodeMove).sort((a, b) => a - b);
+        expect(Position.fromFen(fen).generateLegalMoves().sort((a, b) => a - b)).toEqual(expected);
+      }
+  });
+
+  it('should restore the position, hash and caches on unmake', () => {
+      const position = Position.fromFen(FENS[1]);
+      for (const move of position.generateLegalMoves()) {
+        const after = applyMoveToFen(FENS[1], decodeMove(move));
+        position.makeMove(move);
+        expect(position.toFen()).toBe(after);
+        expect(position.hash).toBe(hashFen(after));
+        position.unmakeMove();
+        expect(position.toFen()).toBe(FENS[1]);
+      }
+      expect(position.hash).toBe(hashFen(FENS[1]));
+      expect(position.kingSquare('w')).toBe(9 * 9 + 4);
+      expect(position.kingSquare('b')).toBe(9 + 4);
+      expect(position.pieceSquares('w')).toHaveLength(13);
+  });
+
+  it('should track the King and detect the flying general', () => {
+      const position = Position.fromFen('3k5/9/9/9/9/9/9/9/9/4K4 w - - 0 1');
+      position.makeMove(fromUciMove('e0d0'));
+      expect(position.kingSquare('w')).toBe(9 * 9 + 3);
+      expect(position.isInCheck('b')).toBe(true);
+      expect(position.isInCheck('w')).toBe(true);
+      position.unmakeMove();
+      expect(position.isInCheck('w')).toBe(false);
+      expect(position.generateLegalMoves().map(m => toUciMove(decodeMove(m).from, decodeMove(m).to))).not.toContain('e0d0');
+  });
+
+  it('should reject more pieces for a side than the starting set', () => {
+      // 17 Red pieces: the starting set and an extra Pawn
+      expect(() => Position.fromFen('rnbakabnr/9/1c5c1/p1p1p1p1p/9/P8/P1P1P1P1P/1C5C1/9/RNBAKABNR w - - 0 1')).toThrow('Too many Red pieces');
+  });
+});
+
+describe('Position transforms', () => {
+  const FEN = 'r1bakabr1/9/1cn4c1/p1p1p1p1p/9/9/P1P1P1P1P/1C2C1N2/9/RNBAKAB1R b - - 2 3';
+
+  it('should mirror files and keep the side to move', () => {
+      expect(mirrorHorizontal(START_FEN)).toBe(START_FEN);
+      expect(mirrorHorizontal(FEN)).toBe('1rbakab1r/9/1c4nc1/p1p1p1p1p/9/9/P1P1P1P1P/2N1C2C1/9/R1BAKABNR b - - 2 3');
+      expect(mirrorHorizontal(mirrorHorizontal(FEN))).toBe(FEN);
+  });
+
+  it('should swap colours by rotating the board and flipping the side to move', () => {
+      expect(swapColors(START_FEN)).toBe(START_FEN.replace(' w ', ' b '));
+      expect(swapColors(FEN)).toBe('r1bakabnr/9/2n1c2c1/p1p1p1p1p/9/9/P1P1P1P1P/1C4NC1/9/1RBAKAB1R w - - 2 3');
+      expect(swapColors(swapColors(FEN))).toBe(FEN);
+  });
+
+  it('should give all four variants the same canonical form and map moves back', () => {
+      const variants = [FEN, mirrorHorizontal(FEN), swapColors(FEN), swapColors(mirrorHorizontal(FEN))];
+      const canonical = variants.map(canonicalizeFen);
+      expect(new Set(canonical.map(c => c.fen)).size).toBe(1);
+      expect(canonical[0].fen.split(' ').slice(1)).toEqual(['w', '-', '-', '0', '1']);
+
+      // The same move seen from each variant lands on one canonical move
+      const moves = ['b9c7', 'h9g7', 'h0g2', 'b0c2'];
+      const mapped = moves.map((move, i) => transformUciMove(move, canonical[i].transform));
+      expect(new Set(mapped).size).toBe(1);
+      expect(transformUciMove(mapped[0], canonical[0].transform)).toBe('b9c7');
+  });
+});
@@ -11,131 +11,149 @@ export type BoardState = (Piece | null)[][]; // 10 rows, 9 cols
 
 export const START_FEN = "rnbakabnr/9/1c5c1/p1p1p1p1p/9/9/P1P1P1P1P/1C5C1/9/RNBAKABNR w - - 0 1";
 
-export function validateFen(fen: string): { valid: boolean; error?: string } {
-  try {
-    const { board } = parseFen(fen);
-    
-    // Counts
-    const counts = {
-      w: { k: 0, a: 0, b: 0, n: 0, r: 0, c: 0, p: 0 },
-      b: { k: 0, a: 0, b: 0, n: 0, r: 0, c: 0, p: 0 }
-    };
+export type PositionIssueCode =
+  | 'invalid-fen'
+  | 'piece-misplaced'
+  | 'king-missing'
+  | 'too-many-pieces'
+  | 'pawns-same-file'
+  | 'flying-general'
+  | 'opponent-in-check';
 
-    // Positions for Kings to check Flying General
-    let redKingPos: { r: number, c: number } | null = null;
-    let blackKingPos: { r: number, c: number } | null = null;
+export interface PositionIssue {
+  code: PositionIssueCode;
+  message: string; // Bilingual, e.g. '缺少红帅 (Red King missing)'
+  squares: Square[]; // Offending squares, empty when the issue is about a missing piece
+  piece?: Piece;
+}
 
-    for (let r = 0; r < 10; r++) {
-      for (let c = 0; c < 9; c++) {
-        const piece = board[r][c];
-        if (piece) {
-          counts[piece.color][piece.type]++;
+const SIDE_NAMES: Record<PieceColor, string> = { w: '红', b: '黑' };
+const SIDE_NAMES_EN: Record<PieceColor, string> = { w: 'Red', b: 'Black' };
+const PIECE_NAMES_EN: Record<PieceType, string> = { k: 'King', a: 'Advisor', b: 'Bishop', n: 'Knight', r: 'Rook', c: 'Cannon', p: 'Pawn' };
+const PIECE_LIMITS: Record<PieceType, number> = { k: 1, a: 2, b: 2, n: 2, r: 2, c: 2, p: 5 };
 
-          // Update King Positions
-          if (piece.type === 'k') {
-            if (piece.color === 'w') redKingPos = { r, c };
-            else blackKingPos = { r, c };
-          }
+// Why a piece cannot stand on a square, or null when it can
+function misplacedReason(piece: Piece, row: number, col: number): string | null {
+  const red = piece.color === 'w';
+  const advance = red ? 9 - row : row; // Ranks from its own back rank
+  const name = getPieceName(piece.type, piece.color);
+  const side = SIDE_NAMES_EN[piece.color];
+  switch (piece.type) {
+    case 'p':
+      // Pawns start on the fourth rank and only move sideways after crossing the river
+      if (advance < 3) return `${SIDE_NAMES[piece.color]}${name}位置错误 (${side} Pawn at invalid rank)`;
+      if (advance <= 4 && col % 2 !== 0) return `${SIDE_NAMES[piece.color]}${name}位置错误 (${side} Pawn at invalid file before river)`;
+      return null;
+    case 'a':
+      if (!isInPalace(piece.color, row, col)) return `${SIDE_NAMES[piece.color]}${name}位置错误 (${side} Advisor outside palace)`;
+      if ((advance + col) % 2 === 0) return `${SIDE_NAMES[piece.color]}${name}位置错误 (${side} Advisor off the palace diagonals)`;
+      return null;
+    case 'b':
+      if (advance > 4) return `${SIDE_NAMES[piece.color]}${name}位置错误 (${side} Bishop crossed river)`;
+      if (advance % 2 !== 0 || col % 2 !== 0 || (advance === 2) !== (col % 4 === 0)) {
+        return `${SIDE_NAMES[piece.color]}${name}位置错误 (${side} Bishop off its points)`;
+      }
+      return null;
+    case 'k':
+      if (!isInPalace(piece.color, row, col)) return `${SIDE_NAMES[piece.color]}${name}位置错误 (${side} King outside palace)`;
+      return null;
+    default:
+      return null;
+  }
+}
 
-          // 1. Position Checks
-          // Pawns
-          if (piece.type === 'p') {
-            if (piece.color === 'w') {
-              // Red Pawn: Moves UP (towards 0). Starts at 6.
-              // Cannot be behind starting line (7, 8, 9).
-              if (r > 6) return { valid: false, error: '红兵位置错误 (Red Pawn at invalid rank)' };
-              // Cannot move sideways before crossing river (River is between 4 and 5).
-              // If at row 5 or 6, must be at even column.
-              if (r >= 5 && c % 2 !== 0) return { valid: false, error: '红兵位置错误 (Red Pawn at invalid file before river)' };
-            } else {
-              // Black Pawn: Moves DOWN (towards 9). Starts at 3.
-              // Cannot be behind starting line (0, 1, 2).
-              if (r < 3) return { valid: false, error: '黑卒位置错误 (Black Pawn at invalid rank)' };
-              // Cannot move sideways before crossing river.
-              // If at row 3 or 4, must be at even column.
-              if (r <= 4 && c % 2 !== 0) return { valid: false, error: '黑卒位置错误 (Black Pawn at invalid file before river)' };
-            }
-          }
+/**
+ * Checks a position and lists every problem found, in board order for
+ * misplaced pieces, then piece counts, then the Kings. An empty list means
+ * the position is legal.
+ */
+export function validatePosition(fen: string): PositionIssue[] {
+  let board: BoardState;
+  let turn: PieceColor;
+  try {
+    ({ board, turn } = parseFen(fen));
+  } catch (e) {
+    return [{ code: 'invalid-fen', message: 'FEN格式错误 (Invalid FEN format)', squares: [] }];
+  }
 
-          // Advisors (Palace)
-          if (piece.type === 'a') {
-             if (piece.color === 'w') {
-                // Red: 7-9, 3-5
-                if (r < 7 || r > 9 || c < 3 || c > 5) return { valid: false, error: '红仕位置错误 (Red Advisor outside palace)' };
-             } else {
-                // Black: 0-2, 3-5
-                if (r < 0 || r > 2 || c < 3 || c > 5) return { valid: false, error: '黑士位置错误 (Black Advisor outside palace)' };
-             }
-          }
+  const issues: PositionIssue[] = [];
+  const found = { w: new Map<PieceType, Square[]>(), b: new Map<PieceType, Square[]>() };
 
-          // Bishops (Elephant) - Cannot cross river
-          if (piece.type === 'b') {
-             if (piece.color === 'w') {
-                // Red: 5-9
-                if (r < 5) return { valid: false, error: '红相位置错误 (Red Bishop crossed river)' };
-             } else {
-                // Black: 0-4
-                if (r > 4) return { valid: false, error: '黑象位置错误 (Black Bishop crossed river)' };
-             }
-          }
-          
-          // Kings (Palace)
-          if (piece.type === 'k') {
-             if (piece.color === 'w') {
-                if (r < 7 || r > 9 || c < 3 || c > 5) return { valid: false, error: '红帅位置错误 (Red King outside palace)' };
-             } else {
-                if (r < 0 || r > 2 || c < 3 || c > 5) return { valid: false, error: '黑将位置错误 (Black King outside palace)' };
-             }
-          }
-        }
-      }
+  // 1. Pieces on squares they can never reach
+  for (let row = 0; row < 10; row++) {
+    for (let col = 0; col < 9; col++) {
+      const piece = board[row][col];
+      if (!piece) continue;
+      const squares = found[piece.color].get(piece.type) ?? [];
+      squares.push({ row, col });
+      found[piece.color].set(piece.type, squares);
+
+      const reason = misplacedReason(piece, row, col);
+      if (reason) issues.push({ code: 'piece-misplaced', message: reason, squares: [{ row, col }], piece });
     }
+  }
 
-    // 2. Count Checks
-    if (counts.w.k !== 1) return { valid: false, error: counts.w.k === 0 ? '缺少红帅 (Red King missing)' : '红帅多于1个 (Multiple Red Kings)' };
-    if (counts.b.k !== 1) return { valid: false, error: counts.b.k === 0 ? '缺少黑将 (Black King missing)' : '黑将多于1个 (Multiple Black Kings)' };
-    
-    if (counts.w.a > 2) return { valid: false, error: '红仕多于2个 (Too many Red Advisors)' };
-    if (counts.b.a > 2) return { valid: false, error: '黑士多于2个 (Too many Black Advisors)' };
-    
-    if (counts.w.b > 2) return { valid: false, error: '红相多于2个 (Too many Red Bishops)' };
-    if (counts.b.b > 2) return { valid: false, error: '黑象多于2个 (Too many Black Bishops)' };
-    
-    if (counts.w.n > 2) return { valid: false, error: '红马多于2个 (Too many Red Knights)' };
-    if (counts.b.n > 2) return { valid: false, error: '黑马多于2个 (Too many Black Knights)' };
-    
-    if (counts.w.r > 2) return { valid: false, error: '红车多于2个 (Too many Red Rooks)' };
-    if (counts.b.r > 2) return { valid: false, error: '黑车多于2个 (Too many Black Rooks)' };
-    
-    if (counts.w.c > 2) return { valid: false, error: '红炮多于2个 (Too many Red Cannons)' };
-    if (counts.b.c > 2) return { valid: false, error: '黑炮多于2个 (Too many Black Cannons)' };
-    
-    if (counts.w.p > 5) return { valid: false, error: '红兵多于5个 (Too many Red Pawns)' };
-    if (counts.b.p > 5) return { valid: false, error: '黑卒多于5个 (Too many Black Pawns)' };
-
-    // 3. Flying General Check
-    if (redKingPos && blackKingPos && redKingPos.c === blackKingPos.c) {
-      // Same column
-      let obstacles = 0;
-      const col = redKingPos.c;
-      const minR = Math.min(redKingPos.r, blackKingPos.r);
-      const maxR = Math.max(redKingPos.r, blackKingPos.r);
-      
-      for (let r = minR + 1; r < maxR; r++) {
-        if (board[r][col]) {
-          obstacles++;
-        }
+  // 2. Piece totals (there is no promotion, so the starting counts are the maximum)
+  for (const color of ['w', 'b'] as PieceColor[]) {
+    for (const type of Object.keys(PIECE_LIMITS) as PieceType[]) {
+      const squares = found[color].get(type) ?? [];
+      const name = `${SIDE_NAMES[color]}${getPieceName(type, color)}`;
+      const piece = { type, color };
+      if (type === 'k' && squares.length === 0) {
+        issues.push({ code: 'king-missing', message: `缺少${name} (${SIDE_NAMES_EN[color]} King missing)`, squares: [], piece });
+      } else if (squares.length > PIECE_LIMITS[type]) {
+        const message = type === 'k'
+          ? `${name}多于1个 (Multiple ${SIDE_NAMES_EN[color]} Kings)`
+          : `${name}多于${PIECE_LIMITS[type]}个 (Too many ${SIDE_NAMES_EN[color]} ${PIECE_NAMES_EN[type]}s)`;
+        issues.push({ code: 'too-many-pieces', message, squares, piece });
       }
+    }
 
-      if (obstacles === 0) {
-        return { valid: false, error: '将帅照面 (Flying General)' };
+    // Pawns keep their starting file until they cross the river
+    const uncrossed = (found[color].get('p') ?? []).filter(sq => isOwnSide(color, sq.row));
+    for (let col = 0; col < 9; col++) {
+      const squares = uncrossed.filter(sq => sq.col === col);
+      if (squares.length > 1) {
+        issues.push({
+          code: 'pawns-same-file',
+          message: `${SIDE_NAMES[color]}${getPieceName('p', color)}同列未过河 (${SIDE_NAMES_EN[color]} Pawns share a file before the river)`,
+          squares,
+          piece: { type: 'p', color }
+        });
       }
     }
+  }
 
-    return { valid: true };
-  } catch (e) {
-    return { valid: false, error: 'FEN格式错误 (Invalid FEN format)' };
+  // 3. Kings: facing each other, or the side that just moved left in check
+  const redKings = found.w.get('k') ?? [];
+  const blackKings = found.b.get('k') ?? [];
+  if (redKings.length === 1 && blackKings.length === 1) {
+    const [red, black] = [redKings[0], blackKings[0]];
+    if (red.col === black.col && countPiecesBetween(board, red, black) === 0) {
+      issues.push({ code: 'flying-general', message: '将帅照面 (Flying General)', squares: [red, black] });
+    } else {
+      const waiting: PieceColor = turn === 'w' ? 'b' : 'w';
+      const king = waiting === 'w' ? red : black;
+      if (isSquareAttacked(board, king, turn)) {
+        issues.push({
+          code: 'opponent-in-check',
+          message: `${SIDE_NAMES[turn]}方走棋时${SIDE_NAMES[waiting]}方被将军 (${SIDE_NAMES_EN[waiting]} is in check with ${SIDE_NAMES_EN[turn]} to move)`,
+          squares: [king],
+          piece: board[king.row][king.col]!
+        });
+      }
+    }
   }
+
+  return issues;
+}
+
+/**
+ * Validates a position, reporting only the first problem. See validatePosition for the full list.
+ */
+export function validateFen(fen: string): { valid: boolean; error?: string } {
+  const issues = validatePosition(fen);
+  return issues.length === 0 ? { valid: true } : { valid: false, error: issues[0].message };
 }
 
 export function validateMove(board: BoardState, move: { from: { row: number, col: number }, to: { row: number, col: number } }): { valid: boolean; error?: string } {
@@ -260,13 +278,16 @@ export function validateMove(board: BoardState, move: { from: { row: number, col
     }
     
     // 3. Check Flying General (Simulate Move)
-    const nextBoard = board.map(row => [...row]);
-    nextBoard[to.row][to.col] = piece;
-    nextBoard[from.row][from.col] = null;
+    const nextBoard = makeMove(board, move);
     
     if (isFlyingGeneral(nextBoard)) {
          return { valid: false, error: '将帅照面 (Flying General)' };
     }
+
+    // 4. Check own King safety
+    if (isKingAttacked(nextBoard, piece.color)) {
+         return { valid: false, error: '不能送将 (Move leaves own King in check)' };
+    }
   
     return { valid: true };
 }
@@ -325,8 +346,355 @@ function isFlyingGeneral(board: BoardState): boolean {
     return false;
 }
 
-export function parseFen(fen: string): { board: BoardState, turn: PieceColor } {
-  const [position, turn] = fen.split(' ');
+export interface Square {
+  row: number;
+  col: number;
+}
+
+export interface Move {
+  from: Square;
+  to: Square;
+}
+
+const ORTHOGONAL_STEPS = [[-1, 0], [1, 0], [0, -1], [0, 1]];
+const DIAGONAL_STEPS = [[-1, -1], [-1, 1], [1, -1], [1, 1]];
+// Knight offsets paired with the "leg" square that must be empty
+const KNIGHT_STEPS = [
+  [-2, -1, -1, 0], [-2, 1, -1, 0], [2, -1, 1, 0], [2, 1, 1, 0],
+  [-1, -2, 0, -1], [1, -2, 0, -1], [-1, 2, 0, 1], [1, 2, 0, 1]
+];
+
+function isOnBoard(row: number, col: number): boolean {
+  return row >= 0 && row < 10 && col >= 0 && col < 9;
+}
+
+function isInPalace(color: PieceColor, row: number, col: number): boolean {
+  if (col < 3 || col > 5) return false;
+  return color === 'w' ? row >= 7 && row <= 9 : row >= 0 && row <= 2;
+}
+
+function isOwnSide(color: PieceColor, row: number): boolean {
+  return color === 'w' ? row >= 5 : row <= 4;
+}
+
+/**
+ * Returns a copy of the board with the move played. No legality checks are made.
+ */
+export function makeMove(board: BoardState, move: Move): BoardState {
+  const nextBoard = board.map(row => [...row]);
+  nextBoard[move.to.row][move.to.col] = nextBoard[move.from.row][move.from.col];
+  nextBoard[move.from.row][move.from.col] = null;
+  return nextBoard;
+}
+
+/**
+ * Generates moves that follow the piece geometry (including blocked legs/eyes and
+ * cannon screens) but may still leave the own King in check.
+ */
+function generatePieceMoves(board: BoardState, from: Square): Move[] {
+  const piece = board[from.row][from.col];
+  if (!piece) return [];
+
+  const moves: Move[] = [];
+  const addIfTargetable = (row: number, col: number) => {
+    if (!isOnBoard(row, col)) return;
+    const target = board[row][col];
+    if (!target || target.color !== piece.color) {
+      moves.push({ from, to: { row, col } });
+    }
+  };
+
+  switch (piece.type) {
+    case 'k':
+      for (const [dr, dc] of ORTHOGONAL_STEPS) {
+        const row = from.row + dr;
+        const col = from.col + dc;
+        if (isInPalace(piece.color, row, col)) addIfTargetable(row, col);
+      }
+      break;
+
+    case 'a':
+      for (const [dr, dc] of DIAGONAL_STEPS) {
+        const row = from.row + dr;
+        const col = from.col + dc;
+        if (isInPalace(piece.color, row, col)) addIfTargetable(row, col);
+      }
+      break;
+
+    case 'b':
+      for (const [dr, dc] of DIAGONAL_STEPS) {
+        const row = from.row + dr * 2;
+        const col = from.col + dc * 2;
+        if (!isOnBoard(row, col) || !isOwnSide(piece.color, row)) continue;
+        if (board[from.row + dr][from.col + dc]) continue; // Elephant eye blocked
+        addIfTargetable(row, col);
+      }
+      break;
+
+    case 'n':
+      for (const [dr, dc, legDr, legDc] of KNIGHT_STEPS) {
+        const row = from.row + dr;
+        const col = from.col + dc;
+        if (!isOnBoard(row, col)) continue;
+        if (board[from.row + legDr][from.col + legDc]) continue; // Knight leg blocked
+        addIfTargetable(row, col);
+      }
+      break;
+
+    case 'r':
+    case 'c':
+      for (const [dr, dc] of ORTHOGONAL_STEPS) {
+        let row = from.row + dr;
+        let col = from.col + dc;
+        let screened = false;
+        while (isOnBoard(row, col)) {
+          const target = board[row][col];
+          if (!screened) {
+            if (!target) {
+              moves.push({ from, to: { row, col } });
+            } else if (piece.type === 'r') {
+              if (target.color !== piece.color) moves.push({ from, to: { row, col } });
+              break;
+            } else {
+              screened = true; // Cannon jumps over the first piece
+            }
+          } else if (target) {
+            if (target.color !== piece.color) moves.push({ from, to: { row, col } });
+            break;
+          }
+          row += dr;
+          col += dc;
+        }
+      }
+      break;
+
+    case 'p': {
+      const forward = piece.color === 'w' ? -1 : 1;
+      addIfTargetable(from.row + forward, from.col);
+      if (!isOwnSide(piece.color, from.row)) {
+        addIfTargetable(from.row, from.col - 1);
+        addIfTargetable(from.row, from.col + 1);
+      }
+      break;
+    }
+  }
+
+  return moves;
+}
+
+function findKing(board: BoardState, color: PieceColor): Square | null {
+  const rows = color === 'w' ? [7, 8, 9] : [0, 1, 2];
+  for (const row of rows) {
+    for (let col = 3; col <= 5; col++) {
+      const p = board[row][col];
+      if (p && p.type === 'k' && p.color === color) return { row, col };
+    }
+  }
+  return null;
+}
+
+/**
+ * Checks whether any piece of `byColor` could capture on the given square.
+ * Flying General is not considered here since it only concerns the Kings.
+ */
+function isSquareAttacked(board: BoardState, square: Square, byColor: PieceColor): boolean {
+  const { row, col } = square;
+  const isEnemy = (r: number, c: number, type: PieceType) => {
+    const p = board[r][c];
+    return !!p && p.color === byColor && p.type === type;
+  };
+
+  // Rooks and Cannons along ranks and files
+  for (const [dr, dc] of ORTHOGONAL_STEPS) {
+    let r = row + dr;
+    let c = col + dc;
+    let screened = false;
+    while (isOnBoard(r, c)) {
+      if (board[r][c]) {
+        if (!screened) {
+          if (isEnemy(r, c, 'r')) return true;
+          screened = true;
+        } else {
+          if (isEnemy(r, c, 'c')) return true;
+          break;
+        }
+      }
+      r += dr;
+      c += dc;
+    }
+  }
+
+  // Knights: the leg of a knight attacking this square is always diagonally adjacent to it
+  for (const [dr, dc] of KNIGHT_STEPS) {
+    const r = row + dr;
+    const c = col + dc;
+    if (!isOnBoard(r, c) || !isEnemy(r, c, 'n')) continue;
+    if (!board[row + Math.sign(dr)][col + Math.sign(dc)]) return true;
+  }
+
+  // Pawns: from behind (relative to their direction) or from the side once across the river
+  const pawnForward = byColor === 'w' ? -1 : 1;
+  if (isOnBoard(row - pawnForward, col) && isEnemy(row - pawnForward, col, 'p')) return true;
+  if (!isOwnSide(byColor, row)) {
+    if (isOnBoard(row, col - 1) && isEnemy(row, col - 1, 'p')) return true;
+    if (isOnBoard(row, col + 1) && isEnemy(row, col + 1, 'p')) return true;
+  }
+
+  // King, Advisors and Bishops only reach squares on their own side
+  if (isInPalace(byColor, row, col)) {
+    for (const [dr, dc] of ORTHOGONAL_STEPS) {
+      if (isOnBoard(row + dr, col + dc) && isEnemy(row + dr, col + dc, 'k')) return true;
+    }
+    for (const [dr, dc] of DIAGONAL_STEPS) {
+      if (isOnBoard(row + dr, col + dc) && isEnemy(row + dr, col + dc, 'a')) return true;
+    }
+  }
+  if (isOwnSide(byColor, row)) {
+    for (const [dr, dc] of DIAGONAL_STEPS) {
+      const r = row + dr * 2;
+      const c = col + dc * 2;
+      if (isOnBoard(r, c) && isEnemy(r, c, 'b') && !board[row + dr][col + dc]) return true;
+    }
+  }
+
+  return false;
+}
+
+function isKingAttacked(board: BoardState, color: PieceColor): boolean {
+  const king = findKing(board, color);
+  if (!king) return false;
+  return isFlyingGeneral(board) || isSquareAttacked(board, king, color === 'w' ? 'b' : 'w');
+}
+
+/**
+ * Enumerates every legal move for the side to move: pseudo-legal moves that
+ * neither expose the own King to check nor let the Kings face each other.
+ */
+export function generateLegalMoves(board: BoardState, turn: PieceColor): Move[] {
+  const moves: Move[] = [];
+  for (let row = 0; row < 10; row++) {
+    for (let col = 0; col < 9; col++) {
+      const piece = board[row][col];
+      if (!piece || piece.color !== turn) continue;
+      for (const move of generatePieceMoves(board, { row, col })) {
+        if (!isKingAttacked(makeMove(board, move), turn)) moves.push(move);
+      }
+    }
+  }
+  return moves;
+}
+
+/**
+ * Legal moves of the piece standing on `from`, e.g. to highlight its targets.
+ */
+export function getLegalMovesFrom(board: BoardState, from: Square): Move[] {
+  const piece = board[from.row][from.col];
+  if (!piece) return [];
+  return generatePieceMoves(board, from).filter(move => !isKingAttacked(makeMove(board, move), piece.color));
+}
+
+export function isLegalMove(board: BoardState, move: Move): boolean {
+  return getLegalMovesFrom(board, move.from).some(m => m.to.row === move.to.row && m.to.col === move.to.col);
+}
+
+export type GameStatus = 'playing' | 'check' | 'checkmate' | 'stalemate' | 'draw';
+
+// Natural move limit: 60 rounds (120 plies) without a capture is a draw
+export const NATURAL_MOVE_LIMIT = 120;
+
+export function isInCheck(board: BoardState, color: PieceColor): boolean {
+  return isKingAttacked(board, color);
+}
+
+export function isCheckmate(board: BoardState, turn: PieceColor): boolean {
+  return isInCheck(board, turn) && generateLegalMoves(board, turn).length === 0;
+}
+
+/**
+ * No legal moves while not in check (困毙). Unlike chess this loses the game.
+ */
+export function isStalemate(board: BoardState, turn: PieceColor): boolean {
+  return !isInCheck(board, turn) && generateLegalMoves(board, turn).length === 0;
+}
+
+/**
+ * Determines the state of the game for the side to move. In Xiangqi both
+ * checkmate and stalemate are a loss for the side that cannot move. Reaching
+ * the natural move limit is a draw unless the last move delivered mate.
+ */
+export function getGameStatus(fen: string): { status: GameStatus; turn: PieceColor; winner?: PieceColor } {
+  const { board, turn, halfmoveClock } = parseFen(fen);
+  const inCheck = isInCheck(board, turn);
+  const hasMoves = generateLegalMoves(board, turn).length > 0;
+  const opponent: PieceColor = turn === 'w' ? 'b' : 'w';
+
+  if (!hasMoves) {
+    return { status: inCheck ? 'checkmate' : 'stalemate', turn, winner: opponent };
+  }
+  if (halfmoveClock >= NATURAL_MOVE_LIMIT) {
+    return { status: 'draw', turn };
+  }
+  return { status: inCheck ? 'check' : 'playing', turn };
+}
+
+// Zobrist keys: one 64-bit key per (piece, square) plus one for Black to move.
+// Generated by SplitMix64 from a fixed seed so hashes are stable between runs
+// and can be stored (opening books, caches).
+const ZOBRIST_PIECE_ORDER: PieceType[] = ['k', 'a', 'b', 'n', 'r', 'c', 'p'];
+const MASK_64 = (1n << 64n) - 1n;
+
+function createZobristKeys(count: number): bigint[] {
+  let state = 0x5851f42d4c957f2dn;
+  const keys: bigint[] = [];
+  for (let i = 0; i < count; i++) {
+    state = (state + 0x9e3779b97f4a7c15n) & MASK_64;
+    let z = state;
+    z = ((z ^ (z >> 30n)) * 0xbf58476d1ce4e5b9n) & MASK_64;
+    z = ((z ^ (z >> 27n)) * 0x94d049bb133111ebn) & MASK_64;
+    keys.push(z ^ (z >> 31n));
+  }
+  return keys;
+}
+
+const ZOBRIST_KEYS = createZobristKeys(14 * 90 + 1);
+const ZOBRIST_BLACK_TO_MOVE = ZOBRIST_KEYS[14 * 90];
+
+function zobristPieceKey(piece: Piece, row: number, col: number): bigint {
+  const pieceIndex = (piece.color === 'w' ? 0 : 7) + ZOBRIST_PIECE_ORDER.indexOf(piece.type);
+  return ZOBRIST_KEYS[pieceIndex * 90 + row * 9 + col];
+}
+
+export function computeZobristHash(board: BoardState, turn: PieceColor): bigint {
+  let hash = 0n;
+  for (let row = 0; row < 10; row++) {
+    for (let col = 0; col < 9; col++) {
+      const piece = board[row][col];
+      if (piece) hash ^= zobristPieceKey(piece, row, col);
+    }
+  }
+  return turn === 'b' ? hash ^ ZOBRIST_BLACK_TO_MOVE : hash;
+}
+
+export function hashFen(fen: string): bigint {
+  const { board, turn } = parseFen(fen);
+  return computeZobristHash(board, turn);
+}
+
+/**
+ * Incrementally updates `hash` for `move` played on `board` (the position before the move).
+ */
+export function updateZobristHash(hash: bigint, board: BoardState, move: Move): bigint {
+  const piece = board[move.from.row][move.from.col];
+  if (!piece) return hash;
+  const captured = board[move.to.row][move.to.col];
+
+  let next = hash ^ zobristPieceKey(piece, move.from.row, move.from.col) ^ zobristPieceKey(piece, move.to.row, move.to.col);
+  if (captured) next ^= zobristPieceKey(captured, move.to.row, move.to.col);
+  return next ^ ZOBRIST_BLACK_TO_MOVE;
+}
+
+export function parseFen(fen: string): { board: BoardState, turn: PieceColor, halfmoveClock: number, fullmoveNumber: number } {
+  const [position, turn, , , halfmove, fullmove] = fen.split(' ');
   const rows = position.split('/');
   const board: BoardState = [];
 
@@ -349,10 +717,19 @@ export function parseFen(fen: string): { board: BoardState, turn: PieceColor } {
     board.push(row);
   }
 
-  return { board, turn: turn as PieceColor };
+  // Move counters are optional in FENs coming from recognition or older records
+  const halfmoveClock = parseInt(halfmove);
+  const fullmoveNumber = parseInt(fullmove);
+
+  return {
+    board,
+    turn: turn as PieceColor,
+    halfmoveClock: isNaN(halfmoveClock) ? 0 : halfmoveClock,
+    fullmoveNumber: isNaN(fullmoveNumber) ? 1 : fullmoveNumber
+  };
 }
 
-export function generateFen(board: BoardState, turn: PieceColor): string {
+export function generateFen(board: BoardState, turn: PieceColor, halfmoveClock = 0, fullmoveNumber = 1): string {
   let fen = '';
   for (let r = 0; r < 10; r++) {
     let emptyCount = 0;
@@ -372,7 +749,23 @@ export function generateFen(board: BoardState, turn: PieceColor): string {
     if (emptyCount > 0) fen += emptyCount;
     if (r < 9) fen += '/';
   }
-  return `${fen} ${turn} - - 0 1`;
+  return `${fen} ${turn} - - ${halfmoveClock} ${fullmoveNumber}`;
+}
+
+/**
+ * Plays a move on a FEN and returns the resulting FEN with updated move counters:
+ * the halfmove clock counts plies since the last capture, the fullmove number
+ * increases after Black's move.
+ */
+export function applyMoveToFen(fen: string, move: Move): string {
+  const { board, turn, halfmoveClock, fullmoveNumber } = parseFen(fen);
+  const isCapture = !!board[move.to.row][move.to.col];
+  return generateFen(
+    makeMove(board, move),
+    turn === 'w' ? 'b' : 'w',
+    isCapture ? 0 : halfmoveClock + 1,
+    turn === 'b' ? fullmoveNumber + 1 : fullmoveNumber
+  );
 }
 
 export function toUciMove(from: { row: number, col: number }, to: { row: number, col: number }): string {
@@ -397,6 +790,88 @@ export function fromUciMove(move: string): { from: { row: number, col: number },
   return { from: { row: fRow, col: fCol }, to: { row: tRow, col: tCol } };
 }
 
+/**
+ * Builds the UCI `position` command from the game's starting FEN and the moves
+ * played since, so the engine can see repetitions.
+ */
+export function toUciPositionCommand(startFen: string, moves: string[]): string {
+  return moves.length > 0 ? `position fen ${startFen} moves ${moves.join(' ')}` : `position fen ${startFen}`;
+}
+
+// Position transforms. Xiangqi is symmetric left to right, and swapping the
+// colours (rotating the board 180° and flipping the side to move) gives the
+// same position from the other side, so books and caches can store one entry
+// for all four variants. Both transforms undo themselves and commute.
+
+export interface PositionTransform {
+  mirror: boolean; // Files reversed (a <-> i)
+  swap: boolean; // Colours swapped, board rotated 180°
+}
+
+/**
+ * Reflects the position left to right; the side to move and counters are kept.
+ */
+export function mirrorHorizontal(fen: string): string {
+  const { board, turn, halfmoveClock, fullmoveNumber } = parseFen(fen);
+  return generateFen(board.map(row => [...row].reverse()), turn, halfmoveClock, fullmoveNumber);
+}
+
+/**
+ * Rotates the board 180°, swaps the colour of every piece and the side to move.
+ */
+export function swapColors(fen: string): string {
+  const { board, turn, halfmoveClock, fullmoveNumber } = parseFen(fen);
+  const swapped = [...board].reverse().map(row => [...row].reverse().map(piece =>
+    piece ? { type: piece.type, color: (piece.color === 'w' ? 'b' : 'w') as PieceColor } : null
+  ));
+  return generateFen(swapped, turn === 'w' ? 'b' : 'w', halfmoveClock, fullmoveNumber);
+}
+
+export function mirrorMove(move: Move): Move {
+  return {
+    from: { row: move.from.row, col: 8 - move.from.col },
+    to: { row: move.to.row, col: 8 - move.to.col }
+  };
+}
+
+export function swapColorsMove(move: Move): Move {
+  return {
+    from: { row: 9 - move.from.row, col: 8 - move.from.col },
+    to: { row: 9 - move.to.row, col: 8 - move.to.col }
+  };
+}
+
+/**
+ * Maps a move into (or back out of) a transformed position.
+ */
+export function transformMove(move: Move, transform: PositionTransform): Move {
+  let result = move;
+  if (transform.mirror) result = mirrorMove(result);
+  if (transform.swap) result = swapColorsMove(result);
+  return result;
+}
+
+export function transformUciMove(move: string, transform: PositionTransform): string {
+  const { from, to } = transformMove(fromUciMove(move), transform);
+  return toUciMove(from, to);
+}
+
+/**
+ * Canonical form shared by a position, its mirror image and its colour-swapped
+ * versions: Red to move, the lexicographically smaller of the board and its
+ * mirror, and move counters reset. `transform` maps moves from the original
+ * position to the canonical one and back.
+ */
+export function canonicalizeFen(fen: string): { fen: string, transform: PositionTransform } {
+  const swap = parseFen(fen).turn === 'b';
+  const base = swap ? swapColors(fen) : fen;
+  const { board } = parseFen(base);
+  const plain = generateFen(board, 'w');
+  const mirrored = mirrorHorizontal(plain);
+  const mirror = mirrored.split(' ')[0] < plain.split(' ')[0];
+  return { fen: mirror ? mirrored : plain, transform: { mirror, swap } };
+}
+
 export function isRed(color: PieceColor) {
   return color === 'w';
 }
@@ -435,76 +910,17 @@ export function getChineseMoveNotation(board: BoardState, move: { from: { row: n
 
   const getColName = (c: number, color: PieceColor) => isRed(color) ? redCols[c] : blackCols[c];
   
-  // 3. Check for Ambiguity (Same piece on same file)
-  // Simple check for 2 pieces. Complex cases (3+ pawns) simplified.
+  // 3. Disambiguate pieces of the same type sharing a file
   let prefix = '';
-  let fileChar = getColName(fromCol, piece.color);
-
-  // Find other pieces of same type and color in same column
-  const otherPiecesInCol: number[] = [];
-  for (let r = 0; r < 10; r++) {
-    if (r === fromRow) continue;
-    const p = board[r][fromCol];
-    if (p && p.type === piece.type && p.color === piece.color) {
-      otherPiecesInCol.push(r);
+  const fileChar = getColName(fromCol, piece.color);
+  // Advisors and Bishops never need a prefix: only one of them can advance or retreat to a given file
+  if (piece.type !== 'a' && piece.type !== 'b') {
+    const tandem = sortFrontToRear(findPieces(board, piece.type, piece.color, fromCol), piece.color);
+    if (tandem.length > 1) {
+      prefix = getTandemPrefix(tandem.findIndex(sq => sq.row === fromRow), tandem.length, piece.color);
     }
   }
 
-  if (otherPiecesInCol.length > 0) {
-    // Ambiguity exists
-    // For multiple pieces (e.g., pawns), we need to sort them by row
-    const allPiecesInCol = [...otherPiecesInCol, fromRow].sort((a, b) => a - b);
-    
-    // Red attacks UP (0), so smaller row is Front
-    // Black attacks DOWN (9), so larger row is Front
-    
-    if (allPiecesInCol.length === 2) {
-        // Standard 2-piece ambiguity
-        const otherRow = otherPiecesInCol[0];
-        const isFront = isRedTurn ? fromRow < otherRow : fromRow > otherRow;
-        prefix = isFront ? '前' : '后';
-        // Format: "前/后" + "Piece" + "Dir" + "Dest"
-        // So we don't use fileChar (SrcCol) here.
-    } else if (allPiecesInCol.length === 3) {
-        // 3 pieces (Pawns)
-        // Red: 0(Front), 1(Mid), 2(Rear)
-        // Black: 9(Front), 8(Mid), 7(Rear)
-        
-        let index = allPiecesInCol.indexOf(fromRow);
-        // If Black, reverse index to match Front/Mid/Rear logic?
-        // No, let's just define explicitly.
-        
-        if (isRedTurn) {
-            // Smaller row is Front. Index 0 is Front.
-            if (index === 0) prefix = '前';
-            else if (index === 1) prefix = '中';
-            else prefix = '后';
-        } else {
-            // Larger row is Front. Index len-1 is Front.
-            if (index === 2) prefix = '前';
-            else if (index === 1) prefix = '中';
-            else prefix = '后';
-        }
-    } else {
-        // 4+ pieces... rare. Just use row number fallback or simplified.
-        // For simplicity, treat as Front/Back of the group?
-        // Let's stick to simple Front/Back relative to the nearest neighbor if needed, but '中' covers 3.
-        // If 4, "前二", "前三"? Too complex for this snippet.
-        // Fallback: Use standard notation with column, ignoring ambiguity prefix if too complex?
-        // Or just "前" for top half, "后" for bottom half?
-        // Let's just use column notation if > 3.
-        if (allPiecesInCol.length > 3) {
-             // Fallback to standard "Piece + Col + Dir + Dest"
-             // But we need to distinguish.
-             // Actually, standard notation for 4/5 pawns is "前兵", "二兵", "三兵", "四兵", "后兵".
-             // We will implement simple 1-3 support.
-             prefix = ''; 
-        }
-    }
-  } else {
-    prefix = pieceName; // Start with Piece Name
-  }
-  
   // 4. Determine Direction (进, 退, 平)
   let dir = '';
   // Red (Moves UP to 0): toRow < fromRow -> Advance
@@ -548,16 +964,673 @@ export function getChineseMoveNotation(board: BoardState, move: { from: { row: n
   }
   
   // Final Assembly
-  // If prefix was used (Ambiguity), format is: "Prefix" + "Piece" + "Dir" + "Dest"
-  // Wait. Standard is "前炮平五". 
-  // If prefix is set to '前'/'后', we replaced 'fileChar' with 'PieceName' in the logic above?
-  // Let's re-verify.
   // Normal: "炮" + "二" + "平" + "五" (Piece + SrcCol + Dir + Dest)
   // Ambiguous: "前" + "炮" + "平" + "五" (Pos + Piece + Dir + Dest)
-  
-  if (['前', '后', '中'].includes(prefix)) {
-      return prefix + pieceName + dir + dest;
+  // Pawns stacked on several files: "前" + "七" + "进" + "一" (Pos + SrcCol + Dir + Dest)
+  if (prefix) {
+    const tandemFiles = getTandemFiles(board, piece.type, piece.color);
+    return prefix + (tandemFiles.length > 1 ? fileChar : pieceName) + dir + dest;
+  }
+  return pieceName + fileChar + dir + dest;
+}
+
+const CHINESE_NUMERALS = ['一', '二', '三', '四', '五', '六', '七', '八', '九'];
+
+// Traditional / alternative glyphs seen in published game records
+const CHINESE_GLYPH_ALIASES: Record<string, string> = {
+  '車': '车', '俥': '车', '伡': '车', '馬': '马', '傌': '马', '砲': '炮', '包': '炮',
+  '帥': '帅', '將': '将', '進': '进', '後': '后'
+};
+
+const CHINESE_PIECE_TYPES: Record<string, { type: PieceType, color?: PieceColor }> = {
+  '帅': { type: 'k', color: 'w' }, '将': { type: 'k', color: 'b' },
+  '仕': { type: 'a', color: 'w' }, '士': { type: 'a', color: 'b' },
+  '相': { type: 'b', color: 'w' }, '象': { type: 'b', color: 'b' },
+  '兵': { type: 'p', color: 'w' }, '卒': { type: 'p', color: 'b' },
+  '车': { type: 'r' }, '马': { type: 'n' }, '炮': { type: 'c' }
+};
+
+function normalizeChineseMove(text: string): string {
+  return Array.from(text.replace(/\s+/g, ''))
+    .map(ch => {
+      // Full-width digits １-９
+      const code = ch.charCodeAt(0);
+      if (code >= 0xff11 && code <= 0xff19) return String.fromCharCode(code - 0xff10 + 48);
+      return CHINESE_GLYPH_ALIASES[ch] ?? ch;
+    })
+    .join('');
+}
+
+// Returns 1-9 and whether the numeral is written in Chinese (Red) style
+function parseChineseNumeral(ch: string): { value: number, isChinese: boolean } | null {
+  const chineseIndex = CHINESE_NUMERALS.indexOf(ch);
+  if (chineseIndex >= 0) return { value: chineseIndex + 1, isChinese: true };
+  if (/^[1-9]$/.test(ch)) return { value: parseInt(ch), isChinese: false };
+  return null;
+}
+
+// Files are counted from each player's right-hand side
+function fileToCol(file: number, color: PieceColor): number {
+  return isRed(color) ? 9 - file : file - 1;
+}
+
+function findPieces(board: BoardState, type: PieceType, color: PieceColor, col?: number): Square[] {
+  const squares: Square[] = [];
+  for (let row = 0; row < 10; row++) {
+    for (let c = 0; c < 9; c++) {
+      if (col !== undefined && c !== col) continue;
+      const p = board[row][c];
+      if (p && p.type === type && p.color === color) squares.push({ row, col: c });
+    }
+  }
+  return squares;
+}
+
+// Sorts squares from the front (closest to the opponent) to the rear
+function sortFrontToRear(squares: Square[], color: PieceColor): Square[] {
+  return [...squares].sort((a, b) => isRed(color) ? a.row - b.row : b.row - a.row);
+}
+
+// Groups the pieces of one type by file, keeping only files with two or more of them
+function getTandemFiles(board: BoardState, type: PieceType, color: PieceColor): Square[][] {
+  const byCol = new Map<number, Square[]>();
+  for (const sq of findPieces(board, type, color)) {
+    byCol.set(sq.col, [...(byCol.get(sq.col) ?? []), sq]);
+  }
+  return [...byCol.values()].filter(list => list.length >= 2).map(list => sortFrontToRear(list, color));
+}
+
+// 前/后 for two pieces, 前/中/后 for three, then 一二三四五 (Red) or 12345 (Black) from the front
+function getTandemPrefix(index: number, count: number, color: PieceColor): string {
+  if (count === 2) return index === 0 ? '前' : '后';
+  if (count === 3) return ['前', '中', '后'][index];
+  return isRed(color) ? CHINESE_NUMERALS[index] : String(index + 1);
+}
+
+function resolveDestination(type: PieceType, color: PieceColor, from: Square, dir: string, value: number): Square | null {
+  const forward = isRed(color) ? -1 : 1;
+  if (dir === '平') return { row: from.row, col: fileToCol(value, color) };
+
+  const sign = dir === '进' ? forward : -forward;
+  if (['r', 'c', 'p', 'k'].includes(type)) {
+    return { row: from.row + sign * value, col: from.col };
+  }
+
+  // Knight, Bishop and Advisor name the destination file
+  const toCol = fileToCol(value, color);
+  const dc = Math.abs(toCol - from.col);
+  let dr = 0;
+  if (type === 'n') dr = dc === 1 ? 2 : dc === 2 ? 1 : 0;
+  else if (type === 'b') dr = dc === 2 ? 2 : 0;
+  else if (type === 'a') dr = dc === 1 ? 1 : 0;
+  if (dr === 0) return null;
+  return { row: from.row + sign * dr, col: toCol };
+}
+
+// A notated move reduced to its parts, shared by the Chinese and WXF parsers
+interface MoveDescription {
+  type: PieceType;
+  color: PieceColor;
+  file?: number; // Source file (1-9 from the mover's right)
+  rank?: 'front' | 'middle' | 'rear' | number; // Position among tandem pieces, or 0-based index from the front
+  dir: string; // 进 / 退 / 平
+  dest: number; // Distance or destination file
+}
+
+function resolveMoveDescription(board: BoardState, text: string, desc: MoveDescription): Move {
+  const { type, color, file, rank, dir, dest } = desc;
+
+  let candidates: Square[];
+  if (rank !== undefined) {
+    // Pick by rank among the pieces sharing one file
+    let tandems = getTandemFiles(board, type, color);
+    if (file !== undefined) tandems = tandems.filter(list => list[0].col === fileToCol(file, color));
+    if (tandems.length === 0) throw new Error(`着法不合法 (Illegal move): ${text}`);
+    if (tandems.length > 1) throw new Error(`着法有歧义 (Ambiguous move): ${text}`);
+
+    const ordered = tandems[0];
+    const index = rank === 'front' ? 0 : rank === 'rear' ? ordered.length - 1 : rank === 'middle' ? 1 : rank;
+    if (rank === 'middle' && ordered.length !== 3) throw new Error(`着法有歧义 (Ambiguous move): ${text}`);
+    if (index >= ordered.length) throw new Error(`着法不合法 (Illegal move): ${text}`);
+    candidates = [ordered[index]];
   } else {
-      return pieceName + fileChar + dir + dest;
+    candidates = file !== undefined ? findPieces(board, type, color, fileToCol(file, color)) : [];
+  }
+
+  const moves = candidates
+    .map(from => ({ from, to: resolveDestination(type, color, from, dir, dest) }))
+    .filter((m): m is Move => !!m.to && isOnBoard(m.to.row, m.to.col) && isLegalMove(board, m as Move));
+
+  if (moves.length === 0) throw new Error(`着法不合法 (Illegal move): ${text}`);
+  if (moves.length > 1) throw new Error(`着法有歧义 (Ambiguous move): ${text}`);
+  return moves[0];
+}
+
+/**
+ * Parses a move written in Chinese notation (e.g. `炮二平五`, `马8进7`, `前车退二`,
+ * `前七进一`, `二兵平四`)
+ * into board coordinates. Chinese and Arabic numerals are accepted for either
+ * side, as are traditional glyphs (車/俥/傌...). The side to move is taken from
+ * `turn`, otherwise inferred from the piece glyph or the numeral style.
+ * Throws when the text cannot be parsed, is ambiguous or is illegal.
+ */
+export function parseChineseMove(board: BoardState, text: string, turn?: PieceColor): Move {
+  const chars = Array.from(normalizeChineseMove(text));
+  if (chars.length !== 4) throw new Error(`无法识别的着法 (Unrecognized move): ${text}`);
+
+  const [first, second, dir, last] = chars;
+  if (!['进', '退', '平'].includes(dir)) throw new Error(`无法识别的着法 (Unrecognized move): ${text}`);
+  const dest = parseChineseNumeral(last);
+  if (!dest) throw new Error(`无法识别的着法 (Unrecognized move): ${text}`);
+
+  // Prefix forms: 前车 (position + piece), 前七 (position + file, pawns on several files), 二兵 (ordinal + pawn)
+  const positional = ['前', '中', '后'].includes(first);
+  const ordinal = !positional && CHINESE_PIECE_TYPES[second]?.type === 'p' ? parseChineseNumeral(first) : null;
+  const prefixFile = positional ? parseChineseNumeral(second) : null;
+  const pieceInfo = prefixFile ? { type: 'p' as PieceType } : CHINESE_PIECE_TYPES[positional || ordinal ? second : first];
+  const fileNumeral = positional || ordinal ? prefixFile : parseChineseNumeral(second);
+  if (!pieceInfo || (!positional && !ordinal && !fileNumeral)) throw new Error(`无法识别的着法 (Unrecognized move): ${text}`);
+
+  const color: PieceColor = turn ?? pieceInfo.color ?? ((fileNumeral ?? ordinal ?? dest).isChinese ? 'w' : 'b');
+  const { type } = pieceInfo;
+
+  const rank = ordinal ? ordinal.value - 1 : first === '前' ? 'front' : first === '中' ? 'middle' : first === '后' ? 'rear' : undefined;
+  return resolveMoveDescription(board, text, { type, color, file: fileNumeral?.value, rank, dir, dest: dest.value });
+}
+
+/**
+ * Parses a pasted game record such as `1. 炮二平五 马8进7 2. 马二进三` starting
+ * from `fen`. Move numbers are skipped; each move is validated in turn.
+ */
+export function parseChineseMoves(fen: string, text: string): Move[] {
+  const moves: Move[] = [];
+  let currentFen = fen;
+  for (const token of text.split(/\s+/)) {
+    // Skip move numbers like "1." or "12、"
+    if (!token || /^[0-9０-９]+[.、．]*$/.test(token)) continue;
+    const { board, turn } = parseFen(currentFen);
+    const move = parseChineseMove(board, token.replace(/^[0-9０-９]+[.、．]+/, ''), turn);
+    moves.push(move);
+    currentFen = applyMoveToFen(currentFen, move);
+  }
+  return moves;
+}
+
+// WXF piece letters; B (Bishop) and N (kNight) are accepted as input aliases
+const WXF_PIECE_LETTERS: Record<PieceType, string> = { k: 'K', a: 'A', b: 'E', n: 'H', r: 'R', c: 'C', p: 'P' };
+const WXF_LETTER_ALIASES: Record<string, string> = { B: 'E', N: 'H', '.': '=' };
+const WXF_DIRECTIONS: Record<string, string> = { '+': '进', '-': '退', '=': '平' };
+
+/**
+ * Returns the WXF notation of a move, e.g. `C2=5`, `H8+7`, `+R-1`.
+ * Both sides count files 1-9 from their own right. Tandem pieces use +/- (two)
+ * or 1-5 from the front (three or more pawns); pawns stacked on several files
+ * replace the piece letter with the file number, as in Chinese notation.
+ */
+export function getWxfMoveNotation(board: BoardState, move: Move): string {
+  const piece = board[move.from.row][move.from.col];
+  if (!piece) return '';
+
+  const file = (col: number) => isRed(piece.color) ? 9 - col : col + 1;
+  const forward = isRed(piece.color) ? -1 : 1;
+  const dr = move.to.row - move.from.row;
+  const dir = dr === 0 ? '=' : Math.sign(dr) === forward ? '+' : '-';
+  const isStraight = ['r', 'c', 'p', 'k'].includes(piece.type);
+  const dest = dir !== '=' && isStraight ? Math.abs(dr) : file(move.to.col);
+
+  let head = WXF_PIECE_LETTERS[piece.type] + file(move.from.col);
+  if (piece.type !== 'a' && piece.type !== 'b') {
+    const tandem = sortFrontToRear(findPieces(board, piece.type, piece.color, move.from.col), piece.color);
+    if (tandem.length > 1) {
+      const index = tandem.findIndex(sq => sq.row === move.from.row);
+      const prefix = tandem.length === 2 ? (index === 0 ? '+' : '-') : String(index + 1);
+      const tandemFiles = getTandemFiles(board, piece.type, piece.color);
+      head = prefix + (tandemFiles.length > 1 ? file(move.from.col) : WXF_PIECE_LETTERS[piece.type]);
+    }
+  }
+  return head + dir + dest;
+}
+
+/**
+ * Parses a move in WXF notation for the side to move. Letters are case
+ * insensitive, `.` is accepted for `=`, and B/N for E/H.
+ * Throws when the text cannot be parsed, is ambiguous or is illegal.
+ */
+export function parseWxfMove(board: BoardState, text: string, turn: PieceColor): Move {
+  const chars = Array.from(text.replace(/\s+/g, '').toUpperCase()).map(ch => WXF_LETTER_ALIASES[ch] ?? ch);
+  if (chars.length !== 4) throw new Error(`无法识别的着法 (Unrecognized move): ${text}`);
+
+  const [first, second, dirChar, last] = chars;
+  const dir = WXF_DIRECTIONS[dirChar];
+  const isDigit = (ch: string) => /^[1-9]$/.test(ch);
+  const typeOf = (ch: string) => (Object.keys(WXF_PIECE_LETTERS) as PieceType[]).find(t => WXF_PIECE_LETTERS[t] === ch);
+  if (!dir || !isDigit(last)) throw new Error(`无法识别的着法 (Unrecognized move): ${text}`);
+
+  // Prefix forms: +R (position + piece), +7 (position + file, pawns on several files), 2P (ordinal + piece)
+  const hasPrefix = first === '+' || first === '-' || isDigit(first);
+  const type = hasPrefix ? (isDigit(second) ? 'p' : typeOf(second)) : typeOf(first);
+  if (!type || (!hasPrefix && !isDigit(second))) throw new Error(`无法识别的着法 (Unrecognized move): ${text}`);
+
+  const rank = !hasPrefix ? undefined : first === '+' ? 'front' : first === '-' ? 'rear' : parseInt(first) - 1;
+  const file = !hasPrefix || isDigit(second) ? parseInt(second) : undefined;
+  return resolveMoveDescription(board, text, { type, color: turn, file, rank, dir, dest: parseInt(last) });
+}
+
+/**
+ * Returns the ICCS coordinate notation of a move, e.g. `H2-E2`.
+ */
+export function getIccsMoveNotation(move: Move): string {
+  const uci = toUciMove(move.from, move.to).toUpperCase();
+  return `${uci.slice(0, 2)}-${uci.slice(2)}`;
+}
+
+export type NotationStyle = 'chinese' | 'wxf' | 'iccs';
+
+export const NOTATION_STYLE_NAMES: Record<NotationStyle, string> = {
+  chinese: '中文 (Chinese)',
+  wxf: 'WXF',
+  iccs: 'ICCS'
+};
+
+/**
+ * Formats a move in the chosen notation style. `board` is the position before the move.
+ */
+export function formatMove(board: BoardState, move: Move, style: NotationStyle): string {
+  if (style === 'wxf') return getWxfMoveNotation(board, move);
+  if (style === 'iccs') return getIccsMoveNotation(move);
+  return getChineseMoveNotation(board, move);
+}
+
+/**
+ * Parses a move written in any supported notation: ICCS (`H2-E2`), UCI
+ * (`h2e2`), Chinese (`炮二平五`) or WXF (`C2=5`).
+ * Throws when the text cannot be parsed, is ambiguous or is illegal.
+ */
+export function parseNotatedMove(board: BoardState, text: string, turn: PieceColor): Move {
+  const iccs = text.match(/^([a-i])(\d)-?([a-i])(\d)$/i);
+  if (iccs) {
+    const move = fromUciMove(`${iccs[1]}${iccs[2]}${iccs[3]}${iccs[4]}`.toLowerCase());
+    const piece = board[move.from.row][move.from.col];
+    if (!piece || piece.color !== turn || !isLegalMove(board, move)) throw new Error(`着法不合法 (Illegal move): ${text}`);
+    return move;
+  }
+  if (/[\u4e00-\u9fff]/.test(text)) return parseChineseMove(board, text, turn);
+  return parseWxfMove(board, text, turn);
+}
+
+// Mutable position for search and perft. Squares are a flat array indexed by
+// row * 9 + col holding piece codes (0 = empty, 1-7 Red, 8-14 Black, in
+// ZOBRIST_PIECE_ORDER), with per-side piece lists and cached King squares so
+// move generation neither scans the board nor allocates boards. Moves are
+// played and taken back in place with makeMove/unmakeMove.
+
+const EMPTY = 0;
+const KING_CODE = 1;
+const ROOK_CODE = 5;
+const CANNON_CODE = 6;
+const PAWN_CODE = 7;
+const BLACK_OFFSET = 7;
+
+const ORTHOGONAL_DELTAS = [[-1, 0], [1, 0], [0, -1], [0, 1]];
+const DIAGONAL_DELTAS = [[-1, -1], [-1, 1], [1, -1], [1, 1]];
+
+function pieceToCode(piece: Piece): number {
+  return ZOBRIST_PIECE_ORDER.indexOf(piece.type) + 1 + (piece.color === 'w' ? 0 : BLACK_OFFSET);
+}
+
+function codeToPiece(code: number): Piece {
+  return { type: ZOBRIST_PIECE_ORDER[(code - 1) % BLACK_OFFSET], color: code > BLACK_OFFSET ? 'b' : 'w' };
+}
+
+function codeColor(code: number): number {
+  return code > BLACK_OFFSET ? 1 : 0;
+}
+
+/**
+ * Encodes a move as a single number (from * 90 + to, squares as row * 9 + col).
+ */
+export function encodeMove(move: Move): number {
+  return (move.from.row * 9 + move.from.col) * 90 + move.to.row * 9 + move.to.col;
+}
+
+export function decodeMove(code: number): Move {
+  const from = Math.floor(code / 90);
+  const to = code % 90;
+  return { from: { row: Math.floor(from / 9), col: from % 9 }, to: { row: Math.floor(to / 9), col: to % 9 } };
+}
+
+interface UndoEntry {
+  move: number;
+  captured: number;
+  halfmoveClock: number;
+  hash: bigint;
+}
+
+const MAX_SIDE_PIECES = 16; // The starting set; there is no promotion
+
+export class Position {
+  readonly squares = new Uint8Array(90);
+  turn: PieceColor = 'w';
+  halfmoveClock = 0;
+  fullmoveNumber = 1;
+  hash = 0n;
+
+  // Piece lists per side (0 = Red, 1 = Black) and each square's index in its list
+  private readonly lists = [new Int16Array(MAX_SIDE_PIECES), new Int16Array(MAX_SIDE_PIECES)];
+  private readonly counts = [0, 0];
+  private readonly listIndex = new Int8Array(90).fill(-1);
+  private readonly kings = [-1, -1];
+  private readonly history: UndoEntry[] = [];
+
+  /**
+   * Throws if a side has more pieces than the piece lists hold (e.g. a
+   * mis-recognised board); other rule breaches are allowed.
+   */
+  static fromBoard(board: BoardState, turn: PieceColor, halfmoveClock = 0, fullmoveNumber = 1): Position {
+    const position = new Position();
+    for (let row = 0; row < 10; row++) {
+      for (let col = 0; col < 9; col++) {
+        const piece = board[row][col];
+        if (!piece) continue;
+        if (position.counts[piece.color === 'w' ? 0 : 1] === MAX_SIDE_PIECES) {
+          throw new Error(`${SIDE_NAMES[piece.color]}方棋子多于${MAX_SIDE_PIECES}个 (Too many ${SIDE_NAMES_EN[piece.color]} pieces)`);
+        }
+        position.addPiece(row * 9 + col, pieceToCode(piece));
+      }
+    }
+    position.turn = turn;
+    position.halfmoveClock = halfmoveClock;
+    position.fullmoveNumber = fullmoveNumber;
+    position.hash = computeZobristHash(board, turn);
+    return position;
+  }
+
+  static fromFen(fen: string): Position {
+    const { board, turn, halfmoveClock, fullmoveNumber } = parseFen(fen);
+    return Position.fromBoard(board, turn, halfmoveClock, fullmoveNumber);
+  }
+
+  clone(): Position {
+    return Position.fromBoard(this.toBoardState(), this.turn, this.halfmoveClock, this.fullmoveNumber);
+  }
+
+  /**
+   * Converts to the nested array representation used by the React components.
+   */
+  toBoardState(): BoardState {
+    const board: BoardState = Array(10).fill(null).map(() => Array(9).fill(null));
+    for (let sq = 0; sq < 90; sq++) {
+      if (this.squares[sq] !== EMPTY) board[Math.floor(sq / 9)][sq % 9] = codeToPiece(this.squares[sq]);
+    }
+    return board;
+  }
+
+  toFen(): string {
+    return generateFen(this.toBoardState(), this.turn, this.halfmoveClock, this.fullmoveNumber);
+  }
+
+  pieceAt(row: number, col: number): Piece | null {
+    const code = this.squares[row * 9 + col];
+    return code === EMPTY ? null : codeToPiece(code);
+  }
+
+  /**
+   * Type and colour of the piece on square `sq` (row * 9 + col), without allocating.
+   */
+  typeAt(sq: number): PieceType | null {
+    const code = this.squares[sq];
+    return code === EMPTY ? null : ZOBRIST_PIECE_ORDER[(code - 1) % BLACK_OFFSET];
+  }
+
+  colorAt(sq: number): PieceColor | null {
+    const code = this.squares[sq];
+    return code === EMPTY ? null : code > BLACK_OFFSET ? 'b' : 'w';
+  }
+
+  /**
+   * Square (row * 9 + col) of the King of `color`, or -1 if it is missing.
+   */
+  kingSquare(color: PieceColor): number {
+    return this.kings[color === 'w' ? 0 : 1];
+  }
+
+  /**
+   * Squares of all pieces of `color`.
+   */
+  pieceSquares(color: PieceColor): number[] {
+    const side = color === 'w' ? 0 : 1;
+    return Array.from(this.lists[side].subarray(0, this.counts[side]));
+  }
+
+  private addPiece(sq: number, code: number): void {
+    const side = codeColor(code);
+    this.squares[sq] = code;
+    this.listIndex[sq] = this.counts[side];
+    this.lists[side][this.counts[side]++] = sq;
+    if ((code - 1) % BLACK_OFFSET === KING_CODE - 1) this.kings[side] = sq;
+  }
+
+  private removePiece(sq: number): void {
+    const code = this.squares[sq];
+    const side = codeColor(code);
+    const index = this.listIndex[sq];
+    const last = this.lists[side][--this.counts[side]];
+    this.lists[side][index] = last;
+    this.listIndex[last] = index;
+    this.listIndex[sq] = -1;
+    this.squares[sq] = EMPTY;
+    if ((code - 1) % BLACK_OFFSET === KING_CODE - 1) this.kings[side] = -1;
+  }
+
+  private movePiece(from: number, to: number): void {
+    const code = this.squares[from];
+    const side = codeColor(code);
+    const index = this.listIndex[from];
+    this.lists[side][index] = to;
+    this.listIndex[to] = index;
+    this.listIndex[from] = -1;
+    this.squares[to] = code;
+    this.squares[from] = EMPTY;
+    if ((code - 1) % BLACK_OFFSET === KING_CODE - 1) this.kings[side] = to;
+  }
+
+  /**
+   * Plays a move (a `Move` or an encoded move) without checking legality.
+   */
+  makeMove(move: Move | number): void {
+    const code = typeof move === 'number' ? move : encodeMove(move);
+    const from = Math.floor(code / 90);
+    const to = code % 90;
+    const piece = this.squares[from];
+    const captured = this.squares[to];
+    this.history.push({ move: code, captured, halfmoveClock: this.halfmoveClock, hash: this.hash });
+
+    let hash = this.hash ^ ZOBRIST_KEYS[(piece - 1) * 90 + from] ^ ZOBRIST_KEYS[(piece - 1) * 90 + to] ^ ZOBRIST_BLACK_TO_MOVE;
+    if (captured !== EMPTY) {
+      hash ^= ZOBRIST_KEYS[(captured - 1) * 90 + to];
+      this.removePiece(to);
+    }
+    this.movePiece(from, to);
+
+    this.hash = hash;
+    this.halfmoveClock = captured !== EMPTY ? 0 : this.halfmoveClock + 1;
+    if (this.turn === 'b') this.fullmoveNumber++;
+    this.turn = this.turn === 'w' ? 'b' : 'w';
+  }
+
+  /**
+   * Takes back the last move played with makeMove.
+   */
+  unmakeMove(): void {
+    const entry = this.history.pop();
+    if (!entry) return;
+    const from = Math.floor(entry.move / 90);
+    const to = entry.move % 90;
+    this.movePiece(to, from);
+    if (entry.captured !== EMPTY) this.addPiece(to, entry.captured);
+
+    this.turn = this.turn === 'w' ? 'b' : 'w';
+    if (this.turn === 'b') this.fullmoveNumber--;
+    this.halfmoveClock = entry.halfmoveClock;
+    this.hash = entry.hash;
+  }
+
+  /**
+   * Whether `sq` is attacked by `byColor`, including the flying general along
+   * its file. Advisors and Bishops are ignored: they can never reach the
+   * opposing King.
+   */
+  isSquareAttacked(sq: number, byColor: PieceColor): boolean {
+    const offset = byColor === 'w' ? 0 : BLACK_OFFSET;
+    const row = Math.floor(sq / 9);
+    const col = sq % 9;
+
+    // Rooks, Cannons and the facing King along the four lines
+    for (const [dr, dc] of ORTHOGONAL_DELTAS) {
+      let r = row + dr;
+      let c = col + dc;
+      let screened = false;
+      while (r >= 0 && r < 10 && c >= 0 && c < 9) {
+        const code = this.squares[r * 9 + c];
+        if (code !== EMPTY) {
+          if (!screened) {
+            if (code === offset + ROOK_CODE) return true;
+            if (code === offset + KING_CODE && dc === 0) return true;
+            screened = true;
+          } else {
+            if (code === offset + CANNON_CODE) return true;
+            break;
+          }
+        }
+        r += dr;
+        c += dc;
+      }
+    }
+
+    // Knights: the leg is the square diagonally adjacent to the target
+    for (const [dr, dc, lr, lc] of KNIGHT_STEPS) {
+      const r = row - dr;
+      const c = col - dc;
+      if (r < 0 || r > 9 || c < 0 || c > 8) continue;
+      if (this.squares[r * 9 + c] !== offset + 4) continue;
+      const legRow = r + lr;
+      const legCol = c + lc;
+      if (this.squares[legRow * 9 + legCol] === EMPTY) return true;
+    }
+
+    // Pawns: from behind the square, or beside it once across the river
+    const pawn = offset + PAWN_CODE;
+    const behind = byColor === 'w' ? row + 1 : row - 1;
+    if (behind >= 0 && behind <= 9 && this.squares[behind * 9 + col] === pawn) return true;
+    const crossed = byColor === 'w' ? row <= 4 : row >= 5;
+    if (crossed) {
+      if (col > 0 && this.squares[sq - 1] === pawn) return true;
+      if (col < 8 && this.squares[sq + 1] === pawn) return true;
+    }
+    return false;
+  }
+
+  isInCheck(color: PieceColor = this.turn): boolean {
+    const king = this.kingSquare(color);
+    return king >= 0 && this.isSquareAttacked(king, color === 'w' ? 'b' : 'w');
+  }
+
+  /**
+   * Pseudo-legal moves of the side to move, encoded (see encodeMove).
+   */
+  generatePseudoMoves(): number[] {
+    const side = this.turn === 'w' ? 0 : 1;
+    const color = this.turn;
+    const moves: number[] = [];
+    const list = this.lists[side];
+
+    const add = (from: number, r: number, c: number): boolean => {
+      const to = r * 9 + c;
+      const target = this.squares[to];
+      if (target === EMPTY || codeColor(target) !== side) moves.push(from * 90 + to);
+      return target === EMPTY;
+    };
+
+    for (let i = 0; i < this.counts[side]; i++) {
+      const from = list[i];
+      const row = Math.floor(from / 9);
+      const col = from % 9;
+      const type = (this.squares[from] - 1) % BLACK_OFFSET + 1;
+
+      switch (type) {
+        case KING_CODE:
+          for (const [dr, dc] of ORTHOGONAL_DELTAS) {
+            if (isInPalace(color, row + dr, col + dc)) add(from, row + dr, col + dc);
+          }
+          break;
+        case 2: // Advisor
+          for (const [dr, dc] of DIAGONAL_DELTAS) {
+            if (isInPalace(color, row + dr, col + dc)) add(from, row + dr, col + dc);
+          }
+          break;
+        case 3: // Bishop
+          for (const [dr, dc] of DIAGONAL_DELTAS) {
+            const r = row + dr * 2;
+            const c = col + dc * 2;
+            if (!isOnBoard(r, c) || !isOwnSide(color, r)) continue;
+            if (this.squares[(row + dr) * 9 + col + dc] === EMPTY) add(from, r, c);
+          }
+          break;
+        case 4: // Knight
+          for (const [dr, dc, lr, lc] of KNIGHT_STEPS) {
+            const r = row + dr;
+            const c = col + dc;
+            if (!isOnBoard(r, c)) continue;
+            if (this.squares[(row + lr) * 9 + col + lc] === EMPTY) add(from, r, c);
+          }
+          break;
+        case ROOK_CODE:
+          for (const [dr, dc] of ORTHOGONAL_DELTAS) {
+            for (let r = row + dr, c = col + dc; isOnBoard(r, c); r += dr, c += dc) {
+              if (!add(from, r, c)) break;
+            }
+          }
+          break;
+        case CANNON_CODE:
+          for (const [dr, dc] of ORTHOGONAL_DELTAS) {
+            let r = row + dr;
+            let c = col + dc;
+            for (; isOnBoard(r, c) && this.squares[r * 9 + c] === EMPTY; r += dr, c += dc) {
+              moves.push(from * 90 + r * 9 + c);
+            }
+            // Jump the screen and capture the first piece beyond it
+            for (r += dr, c += dc; isOnBoard(r, c); r += dr, c += dc) {
+              const target = this.squares[r * 9 + c];
+              if (target === EMPTY) continue;
+              if (codeColor(target) !== side) moves.push(from * 90 + r * 9 + c);
+              break;
+            }
+          }
+          break;
+        case PAWN_CODE: {
+          const forward = color === 'w' ? -1 : 1;
+          if (isOnBoard(row + forward, col)) add(from, row + forward, col);
+          if (!isOwnSide(color, row)) {
+            if (col > 0) add(from, row, col - 1);
+            if (col < 8) add(from, row, col + 1);
+          }
+          break;
+        }
+      }
+    }
+    return moves;
+  }
+
+  /**
+   * Legal moves of the side to move, encoded (see encodeMove).
+   */
+  generateLegalMoves(): number[] {
+    const color = this.turn;
+    return this.generatePseudoMoves().filter(move => {
+      this.makeMove(move);
+      const legal = !this.isInCheck(color);
+      this.unmakeMove();
+      return legal;
+    });
   }
 }
@@ -0,0 +1,103 @@
+import { describe, it, expect } from 'vitest';
+import { START_FEN, toUciMove } from './xiangqi';
+import { parseXqf } from './xqf';
+
+const uci = (m: { from: { row: number, col: number }, to: { row: number, col: number } }) => toUciMove(m.from, m.to);
+
+// Piece table of the standard opening position (x * 10 + y, Red then Black)
+const START_PIECES = [
+  0, 10, 20, 30, 40, 50, 60, 70, 80, 12, 72, 3, 23, 43, 63, 83,
+  9, 19, 29, 39, 49, 59, 69, 79, 89, 17, 77, 6, 26, 46, 66, 86
+];
+
+interface TestRecord { from: number, to: number, next: boolean, variation: boolean, comment?: string }
+
+// Encodes a file the way the XQF editor does, independently of the decoder
+function buildXqf(version: number, records: TestRecord[], headerKeys = [0, 0, 0, 0, 0, 0, 0, 0, 0]): Uint8Array {
+  const encoder = (text: string) => new TextEncoder().encode(text);
+  const header = new Uint8Array(1024);
+  header.set([0x58, 0x51, version]);
+  const [keyMask, orA, orB, orC, orD, keySum, keyXY, keyXYf, keyXYt] = headerKeys;
+  header.set([keyMask], 3);
+  header.set([orA, orB, orC, orD, keySum, keyXY, keyXYf, keyXYt], 8);
+
+  const sq = (x: number) => x * x * 54 + 221;
+  const encrypted = version >= 11;
+  const pieceKey = encrypted ? (sq(keyXY) * keyXY) & 0xff : 0;
+  const fromKey = encrypted ? (sq(keyXYf) * pieceKey) & 0xff : 0;
+  const toKey = encrypted ? (sq(keyXYt) * fromKey) & 0xff : 0;
+  const commentKey = encrypted ? ((keySum * 256 + keyXY) % 32000) + 767 : 0;
+  const mask = '[(C) Copyright Mr. Dong Shiwei.]';
+  const args = [(keySum & keyMask) | orA, (keyXY & keyMask) | orB, (keyXYf & keyMask) | orC, (keyXYt & keyMask) | orD];
+  const stream = Array.from(mask, (ch, i) => version >= 12 ? ch.charCodeAt(0) & args[i % 4] : 0);
+
+  for (let i = 0; i < 32; i++) {
+    const square = START_PIECES[version >= 12 ? (pieceKey + 1 + i) % 32 : i];
+    header[16 + i] = (square + pieceKey) & 0xff;
+  }
+  header[51] = 1; // Red wins
+  header.set([8, ...encoder('Test Cup')], 208);
+  header.set([3, ...encoder('Red')], 304);
+
+  const body: number[] = [];
+  const int32 = (value: number) => [value & 0xff, (value >> 8) & 0xff, (value >> 16) & 0xff, (value >>> 24) & 0xff];
+  for (const record of records) {
+    const comment = record.comment ? encoder(record.comment) : new Uint8Array(0);
+    let flags = 0;
+    if (version < 11) {
+      flags = (record.next ? 0xf0 : 0) | (record.variation ? 0x0f : 0);
+    } else {
+      flags = (record.next ? 0x80 : 0) | (record.variation ? 0x40 : 0) | (comment.length ? 0x20 : 0);
+    }
+    body.push((record.from + 24 + fromKey) & 0xff, (record.to + 32 + toKey) & 0xff, flags, 0);
+    if (version < 11 || comment.length) body.push(...int32(comment.length + commentKey), ...comment);
+  }
+
+  const file = new Uint8Array(1024 + body.length);
+  file.set(header);
+  body.forEach((byte, i) => { file[1024 + i] = (byte + stream[(1024 + i) % 32]) & 0xff; });
+  return file;
+}
+
+// Root, 炮二平五 (with 炮八平五 as an alternative), then 马8进7
+const RECORDS: TestRecord[] = [
+  { from: 0, to: 0, next: true, variation: false, comment: 'Start' },
+  { from: 72, to: 42, next: true, variation: true, comment: 'Central cannon' },
+  { from: 79, to: 67, next: false, variation: false },
+  { from: 12, to: 42, next: false, variation: false }
+];
+
+describe('XQF import', () => {
+  const expectGame = (data: Uint8Array) => {
+      const record = parseXqf(data);
+      expect(record.startFen).toBe(START_FEN);
+      expect(record.tags.Event).toBe('Test Cup');
+      expect(record.tags.Red).toBe('Red');
+      expect(record.result).toBe('1-0');
+      expect(record.comment).toBe('Start');
+      expect(record.moves.map(n => uci(n.move))).toEqual(['h2e2', 'h9g7']);
+      expect(record.moves[0].comment).toBe('Central cannon');
+      expect(record.moves[0].variations?.map(line => line.map(n => uci(n.move)))).toEqual([['b2e2']]);
+  };
+
+  it('should read an unencrypted file', () => {
+      expectGame(buildXqf(10, RECORDS));
+  });
+
+  it('should read version 11 files with obfuscated squares', () => {
+      expectGame(buildXqf(11, RECORDS, [0, 0, 0, 0, 0, 0x37, 0x5a, 0x11, 0xc4]));
+  });
+
+  it('should read version 18 files with a rotated piece table and key stream', () => {
+      expectGame(buildXqf(18, RECORDS, [0xa5, 0x13, 0x77, 0x2c, 0x90, 0x37, 0x5a, 0x11, 0xc4]));
+  });
+
+  it('should reject other files and illegal moves', () => {
+      expect(() => parseXqf(new TextEncoder().encode('[Event "PGN"]'))).toThrow('Not an XQF file');
+      const illegal = RECORDS.map(r => ({ ...r }));
+      // Black Rook jumping over its own Pawn
+      illegal[2].from = 89;
+      illegal[2].to = 80;
+      expect(() => parseXqf(buildXqf(10, illegal))).toThrow('Illegal');
+  });
+});
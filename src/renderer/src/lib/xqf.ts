@@ -0,0 +1,201 @@
+import { BoardState, PieceColor, PieceType, parseFen, generateFen, fromUciMove, isLegalMove, validateFen, applyMoveToFen } from './xiangqi';
+import { GameNode, GameRecord, GameResult } from './game';
+
+// XQF (象棋演播室) binary game files.
+//
+// Layout: a 1024-byte header followed by the move tree in pre-order. Squares
+// are stored as x * 10 + y, x being the file from Red's left (0-8) and y the
+// rank from Red's side (0-9). Each tree node is a 4-byte record (from, to,
+// flags, reserved) optionally followed by a 4-byte comment length and the
+// GBK comment. The first record is the root: it holds the opening comment only.
+//
+// Version 11 and later obfuscate the pieces, squares and comment lengths with
+// keys derived from header bytes 12-15; version 12 and later also rotate the
+// piece table and subtract a 32-byte key stream from every byte after the header.
+
+const HEADER_SIZE = 1024;
+const EMPTY_SQUARE = 0xff;
+
+// Order of the 32 entries in the piece table (Red first, then Black)
+const PIECE_ORDER: PieceType[] = ['r', 'n', 'b', 'a', 'k', 'a', 'b', 'n', 'r', 'c', 'c', 'p', 'p', 'p', 'p', 'p'];
+
+const KEY_STREAM_MASK = '[(C) Copyright Mr. Dong Shiwei.]';
+
+const RESULTS: GameResult[] = ['*', '1-0', '0-1', '1/2-1/2'];
+
+// Header offsets of the Pascal strings (length byte + GBK text)
+const TEXT_FIELDS: Array<[tag: string, offset: number, size: number]> = [
+  ['Title', 80, 64],
+  ['Event', 208, 64],
+  ['Date', 272, 16],
+  ['Site', 288, 16],
+  ['Red', 304, 16],
+  ['Black', 320, 16],
+  ['Annotator', 464, 16],
+  ['Author', 480, 16]
+];
+
+interface XqfKeys {
+  piece: number;
+  from: number;
+  to: number;
+  comment: number;
+  stream: number[];
+}
+
+function square54Plus221(x: number): number {
+  return x * x * 54 + 221;
+}
+
+function deriveKeys(header: Uint8Array, version: number): XqfKeys {
+  if (version < 11) return { piece: 0, from: 0, to: 0, comment: 0, stream: new Array(32).fill(0) };
+
+  const [keyMask, keySum, keyXY, keyXYf, keyXYt] = [header[3], header[12], header[13], header[14], header[15]];
+  const piece = (square54Plus221(keyXY) * keyXY) & 0xff;
+  const from = (square54Plus221(keyXYf) * piece) & 0xff;
+  const to = (square54Plus221(keyXYt) * from) & 0xff;
+  const comment = ((keySum * 256 + keyXY) % 32000) + 767;
+
+  let stream = new Array(32).fill(0);
+  if (version >= 12) {
+    const args = [
+      (keySum & keyMask) | header[8],
+      (keyXY & keyMask) | header[9],
+      (keyXYf & keyMask) | header[10],
+      (keyXYt & keyMask) | header[11]
+    ];
+    stream = Array.from(KEY_STREAM_MASK, (ch, i) => ch.charCodeAt(0) & args[i % 4]);
+  }
+  return { piece, from, to, comment, stream };
+}
+
+function decodeText(bytes: Uint8Array): string {
+  return new TextDecoder('gb18030').decode(bytes).replace(/\0+$/, '').trim();
+}
+
+function squareToUci(square: number): string {
+  const x = Math.floor(square / 10);
+  const y = square % 10;
+  return String.fromCharCode(97 + x) + y;
+}
+
+/**
+ * Decodes an XQF file into a game record (tags, starting position, move tree
+ * and comments). Throws when the file is not XQF or contains an illegal move.
+ */
+export function parseXqf(data: Uint8Array): GameRecord {
+  if (data.length < HEADER_SIZE || data[0] !== 0x58 || data[1] !== 0x51) {
+    throw new Error('不是有效的XQF文件 (Not an XQF file)');
+  }
+  const header = data.subarray(0, HEADER_SIZE);
+  const version = header[2];
+  const keys = deriveKeys(header, version);
+
+  // 1. Starting position
+  const table = new Array<number>(32);
+  for (let i = 0; i < 32; i++) {
+    const index = version >= 12 ? (keys.piece + 1 + i) % 32 : i;
+    table[index] = (header[16 + i] - keys.piece) & 0xff;
+  }
+  const board: BoardState = Array(10).fill(null).map(() => Array(9).fill(null));
+  table.forEach((square, i) => {
+    if (square === EMPTY_SQUARE || square > 89) return;
+    const color: PieceColor = i < 16 ? 'w' : 'b';
+    const row = 9 - (square % 10);
+    const col = Math.floor(square / 10);
+    board[row][col] = { type: PIECE_ORDER[i % 16], color };
+  });
+
+  // 2. Move tree
+  let offset = HEADER_SIZE;
+  const read = (length: number): Uint8Array => {
+    if (offset + length > data.length) throw new Error('XQF文件已损坏 (Truncated XQF file)');
+    const bytes = new Uint8Array(length);
+    for (let i = 0; i < length; i++, offset++) {
+      bytes[i] = (data[offset] - keys.stream[offset % 32]) & 0xff;
+    }
+    return bytes;
+  };
+
+  const readRecord = () => {
+    const [from, to, flags] = read(4);
+    let hasNext: boolean;
+    let hasVariation: boolean;
+    let commentLength = 0;
+    if (version < 11) {
+      hasNext = (flags & 0xf0) !== 0;
+      hasVariation = (flags & 0x0f) !== 0;
+      commentLength = new DataView(read(4).buffer).getInt32(0, true);
+    } else {
+      hasNext = (flags & 0x80) !== 0;
+      hasVariation = (flags & 0x40) !== 0;
+      if (flags & 0x20) commentLength = new DataView(read(4).buffer).getInt32(0, true) - keys.comment;
+    }
+    const comment = commentLength > 0 ? decodeText(read(commentLength)) : '';
+    return {
+      from: (from - 24 - keys.from) & 0xff,
+      to: (to - 32 - keys.to) & 0xff,
+      hasNext,
+      hasVariation,
+      comment
+    };
+  };
+
+  // Reads a move with its continuation, then any alternatives to that move
+  const readMoves = (fen: string): { line: GameNode[], alternatives: GameNode[][] } => {
+    const record = readRecord();
+    if (record.from > 89 || record.to > 89) throw new Error('XQF文件已损坏 (Corrupt XQF move)');
+    const uci = squareToUci(record.from) + squareToUci(record.to);
+    const move = fromUciMove(uci);
+    const { board: current, turn } = parseFen(fen);
+    const piece = current[move.from.row][move.from.col];
+    if (!piece || piece.color !== turn || !isLegalMove(current, move)) {
+      throw new Error(`着法不合法 (Illegal move): ${uci}`);
+    }
+
+    const node: GameNode = { move };
+    if (record.comment) node.comment = record.comment;
+    const line = [node];
+    if (record.hasNext) {
+      const rest = readMoves(applyMoveToFen(fen, move));
+      if (rest.alternatives.length > 0) rest.line[0].variations = rest.alternatives;
+      line.push(...rest.line);
+    }
+    let alternatives: GameNode[][] = [];
+    if (record.hasVariation) {
+      const sibling = readMoves(fen);
+      alternatives = [sibling.line, ...sibling.alternatives];
+    }
+    return { line, alternatives };
+  };
+
+  // Side to move: the first move decides, otherwise the header flag (byte 50)
+  const root = readRecord();
+  let turn: PieceColor = header[50] === 1 ? 'b' : 'w';
+  if (root.hasNext && offset + 4 <= data.length) {
+    const firstFrom = (data[offset] - keys.stream[offset % 32] - 24 - keys.from) & 0xff;
+    const piece = firstFrom <= 89 ? board[9 - (firstFrom % 10)][Math.floor(firstFrom / 10)] : null;
+    if (piece) turn = piece.color;
+  }
+  const startFen = generateFen(board, turn);
+  const validation = validateFen(startFen);
+  if (!validation.valid) throw new Error(`XQF局面无效 (Invalid XQF position): ${validation.error}`);
+
+  const tags: Record<string, string> = {};
+  for (const [tag, start, size] of TEXT_FIELDS) {
+    const length = Math.min(header[start], size - 1);
+    const text = decodeText(header.subarray(start + 1, start + 1 + length));
+    if (text) tags[tag] = text;
+  }
+  const result = RESULTS[header[51]] ?? '*';
+  tags.Result = result;
+
+  const record: GameRecord = { tags, startFen, moves: [], result };
+  if (root.comment) record.comment = root.comment;
+  if (root.hasNext) {
+    const main = readMoves(startFen);
+    if (main.alternatives.length > 0) main.line[0].variations = main.alternatives;
+    record.moves = main.line;
+  }
+  return record;
+}
@@ -1,4 +1,7 @@
 
+import { EngineDescription, EngineOptionValue, EngineInfo, EngineProfiles, EngineProtocol, AnalysisRequest, AnalysisResult } from '../../shared/engine'
+import { MatchReport, MatchSettings } from '../../shared/match'
+
 export interface IElectronAPI {
   loadPreferences: () => Promise<void>,
 }
@@ -9,12 +12,34 @@ declare global {
     api: {
       startEngine: () => Promise<boolean>
       stopEngine: () => Promise<void>
-      sendToEngine: (command: string) => Promise<void>
-      onEngineInfo: (callback: (info: any) => void) => () => void
-      onBestMove: (callback: (move: string) => void) => () => void
+      analyze: (request: AnalysisRequest, onInfo?: (info: EngineInfo) => void) => Promise<AnalysisResult>
+      cancelAnalysis: () => Promise<void>
       onEngineStatus: (callback: (status: string) => void) => () => void
+      describeEngine: () => Promise<EngineDescription | null>
+      chooseEnginePath: () => Promise<boolean>
+      resetEnginePath: () => Promise<void>
+      getEngineProfiles: () => Promise<EngineProfiles>
+      selectEngineProfile: (name: string) => Promise<EngineProfiles>
+      addEngineProfile: () => Promise<EngineProfiles>
+      setEngineProtocol: (protocol: EngineProtocol) => Promise<EngineProfiles>
+      removeEngineProfile: (name: string) => Promise<EngineProfiles>
+      setEngineOption: (name: string, value?: EngineOptionValue) => Promise<void>
+      onEngineOptions: (callback: (description: EngineDescription) => void) => () => void
+      startMatch: (settings: MatchSettings) => Promise<MatchReport | null>
+      stopMatch: () => Promise<void>
+      onMatchProgress: (callback: (report: MatchReport) => void) => () => void
       getScreenSources: () => Promise<any[]>
       predictBoard: (imageBase64: string) => Promise<{ fen: string, layout: string }>
+      openGame: () => Promise<{ name: string, data: Uint8Array } | null>
+      importGame: () => Promise<{ name: string, data: Uint8Array } | null>
+      saveGame: (content: string, defaultName: string) => Promise<string | null>
+      readClipboard: () => Promise<string>
+      writeClipboard: (text: string) => Promise<void>
+      getBookInfo: () => Promise<{ name: string, size: number } | null>
+      openBook: () => Promise<{ name: string, size: number } | null>
+      buildBook: () => Promise<{ name: string, size: number, games: number, skipped: number } | null>
+      lookupBook: (fen: string) => Promise<Array<{ move: string, weight: number }>>
+      pickBookMove: (fen: string) => Promise<string | null>
     }
   }
 }
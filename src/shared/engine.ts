@@ -0,0 +1,98 @@
+// Types shared by the main process (engine wrappers), the preload bridge and the renderer
+
+/**
+ * One parsed UCI `info` line. Only the fields present on the line are set.
+ */
+export interface EngineInfo {
+  depth?: number;
+  seldepth?: number;
+  multipv?: number;
+  scoreType?: 'cp' | 'mate';
+  scoreValue?: number; // Centipawns, or moves to mate (negative when being mated)
+  scoreBound?: 'lower' | 'upper'; // Fail-high/fail-low score: a bound, not the final value
+  wdl?: { win: number, draw: number, loss: number }; // Per mille, with UCI_ShowWDL
+  nodes?: number;
+  nps?: number;
+  time?: number; // Milliseconds
+  hashfull?: number; // Per mille
+  tbhits?: number;
+  currmove?: string;
+  currmovenumber?: number;
+  pv?: string; // UCI moves separated by spaces
+  string?: string; // Free text (`info string ...`)
+}
+
+export type EngineOptionType = 'spin' | 'check' | 'combo' | 'string' | 'button';
+
+export type EngineOptionValue = string | number | boolean;
+
+/**
+ * An option advertised by the engine with `option name ... type ...`.
+ */
+export interface EngineOption {
+  name: string;
+  type: EngineOptionType;
+  default?: EngineOptionValue; // Absent for buttons
+  min?: number; // spin
+  max?: number; // spin
+  vars?: string[]; // combo choices
+}
+
+export type EngineProtocol = 'uci' | 'ucci';
+
+/**
+ * A named engine setup the user can switch between.
+ */
+export interface EngineProfile {
+  name: string;
+  path: string | null; // Null: the bundled Pikafish build for this CPU
+  protocol: EngineProtocol;
+  options: Record<string, EngineOptionValue>; // Applied after each start
+}
+
+export interface EngineProfiles {
+  profiles: EngineProfile[];
+  active: string; // Profile name
+}
+
+/**
+ * What the engine reported about itself during the `uci` handshake.
+ */
+export interface EngineDescription {
+  name: string;
+  author: string;
+  options: EngineOption[];
+  values: Record<string, EngineOptionValue>; // Saved values applied after each start
+  path: string | null; // Executable; null for the built-in engine
+  customPath: boolean; // Chosen by the user rather than picked for the CPU
+  profile: string; // Name of the profile it was started from
+}
+
+/**
+ * Search limits of an analysis request, as in `go`. Without any limit the
+ * engine decides how long to think.
+ */
+export interface AnalysisLimits {
+  depth?: number;
+  movetime?: number; // Milliseconds
+  wtime?: number; // Clocks and increments in milliseconds
+  btime?: number;
+  winc?: number;
+  binc?: number;
+  infinite?: boolean; // Runs until cancelled
+}
+
+/**
+ * A position to analyse: the start position plus the UCI moves played from it.
+ */
+export interface AnalysisRequest {
+  fen: string;
+  moves: string[];
+  limits: AnalysisLimits;
+}
+
+export interface AnalysisResult {
+  bestmove: string | null; // Null when there is no legal move or the request never reached the engine
+  ponder?: string;
+  cancelled: boolean; // Cut short by cancel() or a newer request
+}
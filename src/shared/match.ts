@@ -0,0 +1,38 @@
+// Types of engine-vs-engine matches, shared by the main process (runner) and the renderer
+import type { RuleSet } from '../renderer/src/lib/rules';
+
+export interface SprtSettings {
+  elo0: number; // H0: the first engine is no more than elo0 stronger
+  elo1: number; // H1: it is at least elo1 stronger
+  alpha: number; // False positive rate
+  beta: number; // False negative rate
+}
+
+export interface MatchSettings {
+  profiles: [string, string]; // Engine profile names; results are from the first one's view
+  games: number; // Each opening is played twice, with colours swapped
+  openings: string[]; // FENs, used in turn
+  time: number; // Milliseconds per side
+  increment: number; // Milliseconds added after each move
+  ruleSet: RuleSet; // For repetitions
+  sprt: SprtSettings;
+}
+
+export interface SprtResult {
+  llr: number; // Log-likelihood ratio
+  lowerBound: number; // H0 is accepted below it
+  upperBound: number; // H1 is accepted above it
+  result: 'H0' | 'H1' | null;
+}
+
+export interface MatchReport {
+  players: [string, string];
+  games: number; // Played so far
+  wins: number;
+  draws: number;
+  losses: number;
+  elo: number; // Elo difference of the first engine, ±eloMargin at 95% confidence
+  eloMargin: number;
+  sprt: SprtResult;
+  lastGame?: { red: string, black: string, result: string, reason: string };
+}
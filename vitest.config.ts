@@ -0,0 +1,30 @@
+import { resolve, basename } from 'path'
+import { buildSync } from 'esbuild'
+import { defineConfig, Plugin } from 'vitest/config'
+
+// electron-vite bundles `?nodeWorker` imports into worker chunks of the main
+// process build. Tests get the same from esbuild, bundled when imported.
+function nodeWorker(): Plugin {
+  const prefix = '\0node-worker:'
+  const outDir = resolve('node_modules/.cache/node-worker')
+  return {
+    name: 'node-worker',
+    enforce: 'pre',
+    async resolveId(id, importer) {
+      if (!id.endsWith('?nodeWorker')) return null
+      const resolved = await this.resolve(id.slice(0, -'?nodeWorker'.length), importer, { skipSelf: true })
+      return resolved && prefix + resolved.id
+    },
+    load(id) {
+      if (!id.startsWith(prefix)) return null
+      const entry = id.slice(prefix.length)
+      const outfile = resolve(outDir, basename(entry).replace(/\.ts$/, '.cjs'))
+      buildSync({ entryPoints: [entry], outfile, bundle: true, platform: 'node', format: 'cjs', logLevel: 'error' })
+      return `import { Worker } from 'node:worker_threads'\nexport default (options) => new Worker(${JSON.stringify(outfile)}, options)\n`
+    }
+  }
+}
+
+export default defineConfig({
+  plugins: [nodeWorker()]
+})